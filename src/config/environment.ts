@@ -1,4 +1,7 @@
 import dotenv from 'dotenv';
+import fs from 'fs';
+import type { UnconnectedRelationshipStrategy } from '../nifi/relationship-policy.js';
+import type { NiFiAuthMethod } from '../nifi/auth.js';
 
 dotenv.config();
 
@@ -7,20 +10,112 @@ export const config = {
         baseUrl: process.env.NIFI_BASE_URL || 'https://localhost:8443/nifi-api',
         username: process.env.NIFI_USERNAME || 'Admin',
         password: process.env.NIFI_PASSWORD || '',
+        // password | certificate | token | none
+        authMethod: (process.env.NIFI_AUTH || 'password') as NiFiAuthMethod,
+        // Pre-issued bearer token for the token method
+        token: process.env.NIFI_TOKEN || '',
+        tls: {
+            caPath: process.env.NIFI_CA_CERT || '',
+            certPath: process.env.NIFI_CLIENT_CERT || '',
+            keyPath: process.env.NIFI_CLIENT_KEY || '',
+            pfxPath: process.env.NIFI_CLIENT_PFX || '',
+            passphrase: process.env.NIFI_CLIENT_PASSPHRASE || '',
+            insecure: process.env.NIFI_TLS_INSECURE === 'true',
+        },
+        request: {
+            timeoutMs: parseInt(process.env.NIFI_REQUEST_TIMEOUT_MS || '30000', 10),
+            // Retries for 5xx responses and network errors, with the delay doubling from retryDelayMs
+            maxRetries: parseInt(process.env.NIFI_MAX_RETRIES || '3', 10),
+            retryDelayMs: parseInt(process.env.NIFI_RETRY_DELAY_MS || '500', 10),
+            // Retries after a 409 caused by a revision changed elsewhere, e.g. in the NiFi UI
+            conflictRetries: parseInt(process.env.NIFI_CONFLICT_RETRIES || '3', 10),
+        },
+    },
+    catalog: {
+        cachePath: process.env.NIFI_CATALOG_CACHE || '.nifi-agent/catalog-cache.json',
+    },
+    flow: {
+        // auto-terminate | error-branch | report
+        unconnectedRelationships: (process.env.UNCONNECTED_RELATIONSHIPS || 'auto-terminate') as UnconnectedRelationshipStrategy,
+    },
+    repair: {
+        // Feed NiFi validation errors back to the model after a build and offer property patches
+        enabled: process.env.AUTO_REPAIR !== 'false',
+        maxAttempts: parseInt(process.env.AUTO_REPAIR_ATTEMPTS || '3', 10),
+    },
+    watch: {
+        // JSON file with watch intervals, alert rules and the alert webhook
+        rulesPath: process.env.WATCH_RULES || '.nifi-agent/watch-rules.json',
+        // Overrides the webhook in the rules file
+        webhookUrl: process.env.WATCH_WEBHOOK_URL || '',
     },
     openai: {
         apiKey: process.env.OPENAI_API_KEY || '',
         model: process.env.OPENAI_MODEL || 'gpt-4',
+        // Maximum model round-trips (tool calls included) per user message
+        maxSteps: parseInt(process.env.OPENAI_MAX_STEPS || '10', 10),
     },
 };
 
-export function validateConfig(): void {
-    if (!config.openai.apiKey || config.openai.apiKey === 'your-openai-api-key-here') {
+// Watch mode only needs OpenAI when it is asked to suggest fixes
+export function validateConfig(requireOpenAI = true): void {
+    if (requireOpenAI && (!config.openai.apiKey || config.openai.apiKey === 'your-openai-api-key-here')) {
         console.error('❌ OPENAI_API_KEY is not set in .env file');
         process.exit(1);
     }
-    if (!config.nifi.password) {
-        console.error('❌ NIFI_PASSWORD is not set in .env file');
+    const strategies: UnconnectedRelationshipStrategy[] = ['auto-terminate', 'error-branch', 'report'];
+    if (!strategies.includes(config.flow.unconnectedRelationships)) {
+        console.error(`❌ UNCONNECTED_RELATIONSHIPS must be one of: ${strategies.join(', ')}`);
+        process.exit(1);
+    }
+    validateNiFiConnection();
+}
+
+function validateNiFiConnection(): void {
+    const { nifi } = config;
+    const fail = (message: string) => {
+        console.error(`❌ ${message}`);
         process.exit(1);
+    };
+
+    const methods: NiFiAuthMethod[] = ['password', 'certificate', 'token', 'none'];
+    if (!methods.includes(nifi.authMethod)) {
+        fail(`NIFI_AUTH must be one of: ${methods.join(', ')}`);
+    }
+    if (nifi.authMethod === 'password' && !nifi.password) {
+        fail('NIFI_PASSWORD is not set in .env file');
+    }
+    if (nifi.authMethod === 'token' && !nifi.token) {
+        fail('NIFI_AUTH=token needs NIFI_TOKEN');
+    }
+
+    const https = nifi.baseUrl.startsWith('https:');
+    const clientCert = nifi.tls.pfxPath || nifi.tls.certPath;
+    if (nifi.authMethod === 'certificate' && (!https || !clientCert)) {
+        fail('NIFI_AUTH=certificate needs an https NIFI_BASE_URL and NIFI_CLIENT_CERT with NIFI_CLIENT_KEY, or NIFI_CLIENT_PFX');
+    }
+    if (nifi.tls.certPath && !nifi.tls.keyPath) {
+        fail('NIFI_CLIENT_CERT needs NIFI_CLIENT_KEY');
+    }
+    if (nifi.tls.pfxPath && nifi.tls.certPath) {
+        fail('Set either NIFI_CLIENT_PFX or NIFI_CLIENT_CERT/NIFI_CLIENT_KEY, not both');
+    }
+    const files: Array<[string, string]> = [
+        ['NIFI_CA_CERT', nifi.tls.caPath],
+        ['NIFI_CLIENT_CERT', nifi.tls.certPath],
+        ['NIFI_CLIENT_KEY', nifi.tls.keyPath],
+        ['NIFI_CLIENT_PFX', nifi.tls.pfxPath],
+    ];
+    for (const [name, path] of files) {
+        if (path && !fs.existsSync(path)) {
+            fail(`${name} file not found: ${path}`);
+        }
+    }
+
+    if (nifi.tls.insecure && https) {
+        console.warn('⚠️  NIFI_TLS_INSECURE=true: the NiFi server certificate is not verified');
+    }
+    if (!https && nifi.authMethod !== 'none') {
+        console.warn(`⚠️  NIFI_BASE_URL is plain HTTP; ${nifi.authMethod} credentials are sent unencrypted`);
     }
 }
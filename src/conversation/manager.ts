@@ -1,19 +1,56 @@
 import readlineSync from 'readline-sync';
 import chalk from 'chalk';
-import { OpenAIService, ETLAnalysis, AgentResponse } from '../openai/service.js';
+import { OpenAIService, ETLAnalysis, FlowDefinition, ClarificationRequest } from '../openai/service.js';
+import { flowCreationGuidance } from '../openai/functions.js';
 import { NiFiClient } from '../nifi/client.js';
-import { FlowBuilder } from '../nifi/flow-builder.js';
+import { FlowBuilder, FlowBuildResult } from '../nifi/flow-builder.js';
+import { FlowRepairer, InvalidComponent } from '../nifi/flow-repair.js';
+import { formatValidationReport } from '../nifi/flow-validator.js';
+import { FlowEditor, FlowEdit } from '../nifi/flow-editor.js';
+import { resolveProcessGroupId } from '../nifi/process-groups.js';
+import { FlowInspector } from '../nifi/flow-inspector.js';
+import { FlowController, FlowAction, FlowControlSummary } from '../nifi/flow-control.js';
+import { FlowMonitor, FlowHealthReport, formatCount, formatBytes } from '../nifi/monitor.js';
+import { ProvenanceTracer, TraceRequest } from '../nifi/provenance.js';
+import { describeError } from '../nifi/describe.js';
+import { FlowTeardown, TeardownPlan, TeardownResult } from '../nifi/teardown.js';
+import { CatalogService } from '../processors/discovery.js';
+import { SecretVault, installConsoleRedaction } from '../security/redaction.js';
+import { collectParameters } from './parameters.js';
+import { reviewPlan } from './plan-review.js';
+import { config } from '../config/environment.js';
 
 export class ConversationManager {
     private openai: OpenAIService;
     private nifiClient: NiFiClient;
     private flowBuilder: FlowBuilder;
+    private flowEditor: FlowEditor;
+    private flowInspector: FlowInspector;
+    private flowRepairer: FlowRepairer;
+    private flowController: FlowController;
+    private flowMonitor: FlowMonitor;
+    private provenanceTracer: ProvenanceTracer;
+    private flowTeardown: FlowTeardown;
+    private catalogService: CatalogService;
     private collectedParams: Record<string, string> = {};
+    // Secrets typed this session; collectedParams and the model only hold their placeholders
+    private secrets = new SecretVault();
+    // Flows built this session, checked by "status" when no flow is named
+    private deployedFlows: FlowBuildResult[] = [];
 
     constructor() {
-        this.openai = new OpenAIService();
         this.nifiClient = new NiFiClient();
         this.flowBuilder = new FlowBuilder(this.nifiClient);
+        this.flowEditor = new FlowEditor(this.nifiClient);
+        this.flowInspector = new FlowInspector(this.nifiClient);
+        this.flowRepairer = new FlowRepairer(this.nifiClient);
+        this.flowController = new FlowController(this.nifiClient);
+        this.flowMonitor = new FlowMonitor(this.nifiClient);
+        this.provenanceTracer = new ProvenanceTracer(this.nifiClient);
+        this.flowTeardown = new FlowTeardown(this.nifiClient);
+        this.catalogService = new CatalogService(this.nifiClient);
+        this.openai = new OpenAIService((name, args) => this.executeTool(name, args), text => this.secrets.redact(text));
+        installConsoleRedaction(this.secrets);
     }
 
     async initialize(): Promise<void> {
@@ -21,7 +58,25 @@ export class ConversationManager {
         await this.nifiClient.authenticate();
 
         const about = await this.nifiClient.getAbout();
-        console.log(chalk.green(`✓ Connected to ${about.title} v${about.version}\n`));
+        console.log(chalk.green(`✓ Connected to ${about.title} v${about.version}`));
+
+        console.log(chalk.blue('📚 Loading processor catalog...'));
+        try {
+            const catalog = await this.catalogService.load();
+            const origin = catalog.source === 'cache' ? 'cached' : 'discovered from NiFi';
+            console.log(chalk.green(
+                `✓ Catalog ${origin}: ${catalog.processorCount} processors, ${catalog.controllerServiceCount} controller services`
+            ));
+            if (catalog.unavailable.length > 0) {
+                console.log(chalk.yellow(`  ⚠ Not available on this NiFi: ${catalog.unavailable.join(', ')}`));
+            }
+        } catch (error: any) {
+            console.log(chalk.yellow(`  ⚠ Catalog discovery failed, using built-in catalog: ${error.message}`));
+        }
+
+        // Regenerate the system prompt from the loaded catalog
+        this.openai.resetConversation();
+        console.log('');
     }
 
     async startConversation(): Promise<void> {
@@ -29,7 +84,9 @@ export class ConversationManager {
         console.log(chalk.cyan.bold('  NiFi Agent - Natural Language Flow Builder'));
         console.log(chalk.cyan('═'.repeat(60)));
         console.log(chalk.gray('\nDescribe the data flow you want to create.'));
-        console.log(chalk.gray('Type "exit" to quit, "reset" to start over.\n'));
+        console.log(chalk.gray('Type "exit" to quit, "reset" to start over.'));
+        console.log(chalk.gray('Type "start <flow>", "stop <flow>" or "restart <flow>" to control a deployed flow,'));
+        console.log(chalk.gray('"status [flow]" to check on it and "delete flow <flow>" to remove it.\n'));
 
         while (true) {
             const userInput = readlineSync.question(chalk.yellow('You: '));
@@ -42,6 +99,7 @@ export class ConversationManager {
             if (userInput.toLowerCase() === 'reset') {
                 this.openai.resetConversation();
                 this.collectedParams = {};
+                this.secrets.clear();
                 console.log(chalk.gray('\nConversation reset. Describe your new flow.\n'));
                 continue;
             }
@@ -50,6 +108,23 @@ export class ConversationManager {
                 continue;
             }
 
+            // "status" alone, or naming a group; sentences that merely start with the word go to the model
+            const status = userInput.trim().match(/^status(?:\s+(.+))?$/i);
+            if (status && await this.runStatusCommand(status[1])) {
+                continue;
+            }
+
+            const remove = userInput.trim().match(/^delete\s+flow\s+(.+)$/i);
+            if (remove && await this.runDeleteCommand(remove[1])) {
+                continue;
+            }
+
+            // "start sensor flow" runs directly; anything that doesn't name a group goes to the model
+            const control = userInput.trim().match(/^(start|stop|restart)\s+(.+)$/i);
+            if (control && await this.runFlowControlCommand(control[1].toLowerCase() as FlowAction, control[2])) {
+                continue;
+            }
+
             await this.processUserInput(userInput);
         }
     }
@@ -57,31 +132,54 @@ export class ConversationManager {
     private async processUserInput(input: string): Promise<void> {
         try {
             console.log(chalk.gray('\nThinking...\n'));
-            const response = await this.openai.processMessage(input, this.collectedParams);
-            await this.handleResponse(response);
+            const answer = await this.openai.processMessage(input, this.collectedParams);
+            console.log(chalk.white(`\nAgent: ${answer}\n`));
         } catch (error: any) {
             console.log(chalk.red(`\nError: ${error.message}\n`));
         }
     }
 
-    private async handleResponse(response: AgentResponse): Promise<void> {
-        switch (response.type) {
-            case 'analysis':
-                await this.handleAnalysis(response.data);
-                break;
-            case 'flow':
-                await this.handleFlowCreation(response.data);
-                break;
-            case 'clarification':
-                this.handleClarification(response.data);
-                break;
-            case 'message':
-                console.log(chalk.white(`Agent: ${response.data}\n`));
-                break;
+    // Runs a tool call from the model; the return value is sent back as the tool result
+    private async executeTool(name: string, args: any): Promise<unknown> {
+        switch (name) {
+            case 'analyze_etl_request':
+                return this.handleAnalysis(args as ETLAnalysis);
+            case 'create_nifi_flow':
+                return this.handleFlowCreation(args as FlowDefinition);
+            case 'update_processor':
+            case 'add_processor':
+            case 'remove_processor':
+            case 'rewire_connection':
+                return this.handleEdit({ ...args, kind: name } as FlowEdit);
+            case 'start_flow':
+            case 'stop_flow':
+            case 'restart_flow':
+                return this.handleFlowControl(name.replace('_flow', '') as FlowAction, args.process_group);
+            case 'delete_flow':
+                return this.handleDeleteFlow(args.process_group);
+            case 'trace_provenance':
+                console.log(chalk.gray(`  🔍 Tracing ${args.flowfile_uuid || args.processor}`));
+                return this.provenanceTracer.trace(args as TraceRequest);
+            case 'get_flow_status':
+                console.log(chalk.gray(`  🔍 Checking ${args.process_group || 'deployed flows'}`));
+                return this.checkHealth(args.process_group);
+            case 'request_clarification':
+                return this.handleClarification(args as ClarificationRequest);
+            case 'list_process_groups':
+                console.log(chalk.gray('  🔍 Listing process groups'));
+                return this.flowInspector.listProcessGroups();
+            case 'describe_process_group':
+                console.log(chalk.gray(`  🔍 Describing ${args.process_group}`));
+                return this.flowInspector.describeProcessGroup(args.process_group);
+            case 'get_processor_config':
+                console.log(chalk.gray(`  🔍 Reading ${args.processor}`));
+                return this.flowInspector.getProcessorConfig(args.processor, args.process_group);
+            default:
+                throw new Error(`Unknown tool: ${name}`);
         }
     }
 
-    private async handleAnalysis(analysis: ETLAnalysis): Promise<void> {
+    private async handleAnalysis(analysis: ETLAnalysis): Promise<unknown> {
         console.log(chalk.cyan('═'.repeat(50)));
         console.log(chalk.cyan.bold(`  Flow: ${analysis.flow_name}`));
         console.log(chalk.cyan('═'.repeat(50)));
@@ -99,88 +197,414 @@ export class ConversationManager {
         if (analysis.missing_parameters.length > 0) {
             console.log(chalk.yellow('\n📝 I need some information to configure the flow:\n'));
 
-            for (const param of analysis.missing_parameters) {
-                let prompt = `${param.prompt}`;
-                if (param.example) {
-                    prompt += chalk.gray(` (e.g., ${param.example})`);
-                }
-                prompt += param.required ? chalk.red(' *') : '';
-
-                const value = readlineSync.question(chalk.yellow(`  ${prompt}: `));
-
-                if (value.trim()) {
-                    this.collectedParams[param.param_name] = value.trim();
-                } else if (param.required) {
-                    console.log(chalk.red('  This field is required. Please provide a value.'));
-                    const retry = readlineSync.question(chalk.yellow(`  ${prompt}: `));
-                    if (retry.trim()) {
-                        this.collectedParams[param.param_name] = retry.trim();
-                    }
-                }
-            }
+            Object.assign(this.collectedParams, collectParameters(analysis.missing_parameters, this.secrets));
 
             console.log(chalk.gray('\n✓ Parameters collected. Generating flow configuration...\n'));
-
-            // Now ask OpenAI to create the flow with collected parameters
-            const flowResponse = await this.openai.refineWithParameters(analysis, this.collectedParams);
-            await this.handleResponse(flowResponse);
         }
+
+        return {
+            status: 'parameters_collected',
+            parameters: this.collectedParams,
+            instructions: flowCreationGuidance,
+        };
     }
 
-    private async handleFlowCreation(flowDef: import('../openai/service.js').FlowDefinition): Promise<void> {
+    private async handleFlowCreation(proposed: FlowDefinition): Promise<unknown> {
         console.log(chalk.cyan('\n═'.repeat(50)));
         console.log(chalk.cyan.bold('  Creating NiFi Flow'));
         console.log(chalk.cyan('═'.repeat(50)));
-        console.log(chalk.gray(`\nFlow: ${flowDef.flow_name}\n`));
-
-        // Show flow summary
-        console.log(chalk.white('Processors:'));
-        for (const proc of flowDef.processors) {
-            console.log(chalk.gray(`  • ${proc.name} (${proc.type})`));
-            if (proc.properties && Object.keys(proc.properties).length > 0) {
-                for (const [key, value] of Object.entries(proc.properties)) {
-                    console.log(chalk.gray(`      ${key}: ${value}`));
-                }
-            } else {
-                console.log(chalk.yellow(`      (no properties configured)`));
-            }
-        }
-        console.log('');
-
-        const confirm = readlineSync.question(
-            chalk.yellow('Create this flow in NiFi? (yes/no): ')
-        );
 
-        if (confirm.toLowerCase() !== 'yes' && confirm.toLowerCase() !== 'y') {
+        // Show the plan and let the user change it until it is approved
+        const review = await reviewPlan(proposed, (definition, request) => this.openai.revisePlan(definition, request), this.secrets);
+        if (review.outcome === 'invalid') {
+            console.log(chalk.red('Flow definition is invalid; asking the agent to fix it.\n'));
+            return {
+                status: 'invalid_definition',
+                message: 'Nothing was created. Fix these problems and call create_nifi_flow again.',
+                report: formatValidationReport(review.validation),
+            };
+        }
+        if (review.outcome === 'cancelled') {
             console.log(chalk.gray('\nFlow creation cancelled.\n'));
-            return;
+            return { status: 'cancelled', message: 'The user declined to create this flow.' };
         }
+        const flowDef = review.definition;
 
         console.log(chalk.blue('\n🚀 Building flow...\n'));
-        const result = await this.flowBuilder.buildFlow(flowDef);
+        const result = await this.flowBuilder.buildFlow(flowDef, this.secrets);
 
         console.log(chalk.cyan('\n═'.repeat(50)));
         if (result.success) {
+            this.deployedFlows.push(result);
             console.log(chalk.green.bold('  ✅ Flow created successfully!'));
             console.log(chalk.cyan('═'.repeat(50)));
-            console.log(chalk.gray(`\n  Processors: ${result.processorIds.length}`));
+            console.log(chalk.gray(`\n  Process Group: ${flowDef.flow_name} (id: ${result.processGroupId})`));
+            console.log(chalk.gray(`  Processors: ${result.processorIds.length}`));
+            const ports = result.inputPortIds.length + result.outputPortIds.length;
+            if (ports > 0) {
+                console.log(chalk.gray(`  Ports: ${ports}`));
+            }
+            if (result.funnelIds.length > 0) {
+                console.log(chalk.gray(`  Funnels: ${result.funnelIds.length}`));
+            }
+            if (result.remoteProcessGroupIds.length > 0) {
+                console.log(chalk.gray(`  Remote Process Groups: ${result.remoteProcessGroupIds.length}`));
+            }
             console.log(chalk.gray(`  Connections: ${result.connectionIds.length}`));
             console.log(chalk.gray(`  Controller Services: ${result.controllerServiceIds.length}`));
             console.log(chalk.blue(`\n  View in NiFi UI: https://localhost:8443/nifi\n`));
+
+            if (config.repair.enabled) {
+                const stillInvalid = await this.repairFlow(result);
+                if (stillInvalid.length > 0) {
+                    return { ...result, invalidComponents: stillInvalid };
+                }
+            }
         } else {
-            console.log(chalk.red.bold('  ⚠️ Flow created with errors'));
+            console.log(chalk.red.bold('  ⚠️ Flow creation failed'));
             console.log(chalk.cyan('═'.repeat(50)));
             for (const error of result.errors) {
                 console.log(chalk.red(`  • ${error}`));
             }
+            if (result.rolledBack.length > 0) {
+                console.log(chalk.gray(`\n  Rolled back ${result.rolledBack.length} component(s):`));
+                for (const item of result.rolledBack) {
+                    console.log(chalk.gray(`    • ${item}`));
+                }
+            }
+            if (result.rollbackErrors.length > 0) {
+                console.log(chalk.yellow('\n  Could not remove (clean up manually):'));
+                for (const error of result.rollbackErrors) {
+                    console.log(chalk.yellow(`    • ${error}`));
+                }
+            }
             console.log('');
         }
 
         // Reset for next flow
-        this.collectedParams = {};
+        if (result.success) {
+            this.collectedParams = {};
+        }
+        return result;
+    }
+
+    // Send invalid components back to the model and apply the patches the user approves,
+    // until everything is valid or the retry budget runs out
+    private async repairFlow(result: FlowBuildResult): Promise<InvalidComponent[]> {
+        let invalid = await this.flowRepairer.findInvalidComponents(result);
+
+        for (let attempt = 1; attempt <= config.repair.maxAttempts && invalid.length > 0; attempt++) {
+            console.log(chalk.yellow(`\n🩺 ${invalid.length} invalid component(s), repair attempt ${attempt}/${config.repair.maxAttempts}`));
+            for (const component of invalid) {
+                console.log(chalk.yellow(`  • ${component.name} (${component.kind})`));
+                for (const err of component.validationErrors) {
+                    console.log(chalk.gray(`      - ${err}`));
+                }
+            }
+
+            console.log(chalk.gray('\nAsking for fixes...\n'));
+            const patches = await this.openai.proposeRepairs(invalid);
+            let applied = 0;
+
+            for (const patch of patches) {
+                const component = invalid.find(c => c.id === patch.component_id);
+                if (!component) {
+                    continue;
+                }
+
+                console.log(chalk.white(`Patch for ${component.name}: ${patch.reason}`));
+                for (const [key, value] of Object.entries(patch.properties)) {
+                    const before = component.properties[key];
+                    if (before !== undefined && before !== null) {
+                        console.log(chalk.red(`  - ${key}: ${before}`));
+                    }
+                    if (value !== null) {
+                        console.log(chalk.green(`  + ${key}: ${value}`));
+                    }
+                }
+
+                const approve = readlineSync.question(chalk.yellow('Apply this patch? (yes/no): '));
+                if (approve.toLowerCase() !== 'yes' && approve.toLowerCase() !== 'y') {
+                    console.log(chalk.gray('  Skipped.\n'));
+                    continue;
+                }
+
+                try {
+                    await this.flowRepairer.applyPatch(this.secrets.reveal(patch), component);
+                    applied++;
+                    console.log(chalk.green('  ✓ Applied\n'));
+                } catch (error: any) {
+                    console.log(chalk.red(`  ✗ ${describeError(error)}\n`));
+                }
+            }
+
+            if (applied === 0) {
+                console.log(chalk.gray('No patches applied; stopping repair.'));
+                break;
+            }
+            invalid = await this.flowRepairer.findInvalidComponents(result);
+        }
+
+        if (invalid.length === 0) {
+            console.log(chalk.green('✓ All components are valid\n'));
+        } else {
+            console.log(chalk.yellow(`⚠ ${invalid.length} component(s) still invalid\n`));
+        }
+        return invalid;
+    }
+
+    private async runFlowControlCommand(action: FlowAction, groupRef: string): Promise<boolean> {
+        try {
+            await resolveProcessGroupId(this.nifiClient, groupRef);
+        } catch {
+            return false;
+        }
+        try {
+            this.printControlSummary(await this.controlFlow(action, groupRef));
+        } catch (error: any) {
+            console.log(chalk.red(`\nError: ${error.message}\n`));
+        }
+        return true;
+    }
+
+    private async handleFlowControl(action: FlowAction, groupRef: string): Promise<unknown> {
+        const confirm = readlineSync.question(chalk.yellow(`\n${capitalize(action)} "${groupRef}"? (yes/no): `));
+        if (confirm.toLowerCase() !== 'yes' && confirm.toLowerCase() !== 'y') {
+            console.log(chalk.gray(`\n${capitalize(action)} cancelled.\n`));
+            return { status: 'cancelled', message: `The user declined to ${action} this flow.` };
+        }
+        const summary = await this.controlFlow(action, groupRef);
+        this.printControlSummary(summary);
+        return summary;
     }
 
-    private handleClarification(data: { question: string; options?: string[] }): void {
+    private async controlFlow(action: FlowAction, groupRef: string): Promise<FlowControlSummary> {
+        const verb = { start: 'Starting', stop: 'Stopping', restart: 'Restarting' }[action];
+        console.log(chalk.blue(`\n⏯ ${verb} ${groupRef}...`));
+        return this.flowController.control(action, groupRef);
+    }
+
+    private printControlSummary(summary: FlowControlSummary): void {
+        console.log(chalk.cyan(`\n${summary.processGroupName} (id: ${summary.processGroupId})`));
+        for (const component of summary.components) {
+            const location = component.group ? ` [${component.group}]` : '';
+            const line = `  ${component.state.padEnd(12)} ${component.kind}: ${component.name}${location}`;
+            if (component.error) {
+                console.log(chalk.red(line));
+                console.log(chalk.red(`      ${component.error}`));
+            } else {
+                const running = component.state === 'RUNNING' || component.state === 'ENABLED' || component.state === 'TRANSMITTING';
+                console.log(running ? chalk.green(line) : chalk.gray(line));
+            }
+        }
+        console.log(summary.success
+            ? chalk.green(`\n✅ ${capitalize(summary.action)} complete.\n`)
+            : chalk.red(`\n⚠️ ${summary.failed.length} component(s) did not reach the expected state.\n`));
+    }
+
+    private async runDeleteCommand(groupRef: string): Promise<boolean> {
+        try {
+            await resolveProcessGroupId(this.nifiClient, groupRef);
+        } catch {
+            return false;
+        }
+        try {
+            await this.handleDeleteFlow(groupRef);
+        } catch (error: any) {
+            console.log(chalk.red(`\nError: ${error.message}\n`));
+        }
+        return true;
+    }
+
+    // Preview, confirm (separately for queued data), then tear the flow down
+    private async handleDeleteFlow(groupRef: string): Promise<unknown> {
+        const plan = await this.flowTeardown.planTeardown(groupRef);
+        this.printTeardownPlan(plan);
+
+        const confirm = readlineSync.question(chalk.yellow(`Delete "${plan.processGroupName}" and everything in it? (yes/no): `));
+        if (confirm.toLowerCase() !== 'yes' && confirm.toLowerCase() !== 'y') {
+            console.log(chalk.gray('\nDelete cancelled.\n'));
+            return { status: 'cancelled', message: 'The user declined to delete this flow.' };
+        }
+
+        let dropQueuedData = false;
+        if (plan.flowFilesQueued > 0) {
+            const drop = readlineSync.question(chalk.red(
+                `${formatCount(plan.flowFilesQueued)} queued FlowFile(s) (${formatBytes(plan.bytesQueued)}) will be lost for good. Drop them? (yes/no): `
+            ));
+            if (drop.toLowerCase() !== 'yes' && drop.toLowerCase() !== 'y') {
+                console.log(chalk.gray('\nDelete cancelled; the queued data is kept.\n'));
+                return { status: 'cancelled', message: 'The user kept the queued data, so nothing was deleted.' };
+            }
+            dropQueuedData = true;
+        }
+
+        console.log(chalk.blue(`\n🗑 Deleting ${plan.processGroupName}...`));
+        const result = await this.flowTeardown.teardown(plan, { dropQueuedData });
+        if (result.success) {
+            this.deployedFlows = this.deployedFlows.filter(b => b.processGroupId !== result.processGroupId);
+        }
+        this.printTeardownResult(result);
+        return result;
+    }
+
+    private printTeardownPlan(plan: TeardownPlan): void {
+        console.log(chalk.cyan(`\n${plan.processGroupName} (id: ${plan.processGroupId})`));
+        if (!plan.createdByAgent) {
+            console.log(chalk.yellow('  ⚠ This process group was not created by the agent'));
+        }
+        console.log(chalk.white(`\nWill delete ${plan.items.length} component(s):`));
+        for (const item of plan.items) {
+            const location = item.group ? ` [${item.group}]` : '';
+            console.log(chalk.gray(`  • ${item.kind}: ${item.name}${location}`));
+        }
+        if (plan.running.length > 0) {
+            console.log(chalk.white('\nWill stop or disable first:'));
+            for (const item of plan.running) {
+                console.log(chalk.gray(`  • ${item.kind}: ${item.name}`));
+            }
+        }
+        if (plan.queues.length > 0) {
+            console.log(chalk.red('\nQueued data that would be dropped:'));
+            for (const queue of plan.queues) {
+                console.log(chalk.red(`  • ${queue.name}: ${formatCount(queue.flowFilesQueued)} FlowFile(s), ${formatBytes(queue.bytesQueued)}`));
+            }
+        }
+        console.log('');
+    }
+
+    private printTeardownResult(result: TeardownResult): void {
+        if (result.flowFilesDropped > 0) {
+            console.log(chalk.gray(`  Dropped ${formatCount(result.flowFilesDropped)} FlowFile(s)`));
+        }
+        for (const item of result.deleted) {
+            console.log(chalk.green(`  ✓ Deleted ${item.kind}: ${item.name}`));
+        }
+        for (const error of result.errors) {
+            console.log(chalk.red(`  ✗ ${error}`));
+        }
+        if (result.success) {
+            console.log(chalk.green(`\n✅ ${result.processGroupName} deleted.\n`));
+        } else if (result.deleted.length === 0) {
+            console.log(chalk.red('\n⚠️ Nothing was deleted.\n'));
+        } else {
+            console.log(chalk.red('\n⚠️ Delete stopped partway; check the flow in the NiFi UI.\n'));
+        }
+    }
+
+    private async runStatusCommand(groupRef?: string): Promise<boolean> {
+        if (groupRef) {
+            try {
+                await resolveProcessGroupId(this.nifiClient, groupRef);
+            } catch {
+                return false;
+            }
+        }
+        try {
+            for (const report of await this.checkHealth(groupRef)) {
+                this.printHealthReport(report);
+            }
+        } catch (error: any) {
+            console.log(chalk.red(`\nError: ${error.message}\n`));
+        }
+        return true;
+    }
+
+    // One flow by name, else the flows built this session, else every group the agent created
+    private async checkHealth(groupRef?: string): Promise<FlowHealthReport[]> {
+        if (groupRef) {
+            // Resolved first, so a flow built this session named by its name or path still gets its build result
+            const groupId = await resolveProcessGroupId(this.nifiClient, groupRef);
+            const build = this.deployedFlows.find(b => b.processGroupId === groupId);
+            return [await this.flowMonitor.getHealth(groupId, build)];
+        }
+        if (this.deployedFlows.length > 0) {
+            const reports: FlowHealthReport[] = [];
+            for (const build of this.deployedFlows) {
+                reports.push(await this.flowMonitor.getHealth(build.processGroupId, build));
+            }
+            return reports;
+        }
+        const agentGroups = (await this.flowInspector.listProcessGroups()).filter(g => g.createdByAgent);
+        if (agentGroups.length === 0) {
+            throw new Error('No flows created by the agent were found; name the process group to check');
+        }
+        const reports: FlowHealthReport[] = [];
+        for (const group of agentGroups) {
+            reports.push(await this.flowMonitor.getHealth(group.id));
+        }
+        return reports;
+    }
+
+    private printHealthReport(report: FlowHealthReport): void {
+        console.log(chalk.cyan(`\n${report.processGroupName} (id: ${report.processGroupId})`));
+        console.log(chalk.gray(`  Last 5 min: ${formatCount(report.flowFilesIn)} in, ${formatCount(report.flowFilesOut)} out; `
+            + `${formatCount(report.flowFilesQueued)} queued (${formatBytes(report.bytesQueued)}); `
+            + `${report.activeThreads} active thread(s)`));
+        for (const processor of report.processors) {
+            const line = `  ${processor.runStatus.padEnd(9)} ${processor.name}: `
+                + `${formatCount(processor.flowFilesIn)} in / ${formatCount(processor.flowFilesOut)} out`;
+            console.log(processor.runStatus === 'Running' ? chalk.green(line) : chalk.gray(line));
+        }
+        for (const finding of report.findings) {
+            console.log(report.healthy ? chalk.green(`  ✓ ${finding}`) : chalk.yellow(`  • ${finding}`));
+        }
+        console.log('');
+    }
+
+    private async handleEdit(edit: FlowEdit): Promise<unknown> {
+        console.log(chalk.cyan('\n═'.repeat(50)));
+        console.log(chalk.cyan.bold(`  Edit: ${edit.kind.replace('_', ' ')}`));
+        console.log(chalk.cyan('═'.repeat(50)));
+
+        const plan = await this.flowEditor.planEdit(this.secrets.reveal(edit));
+        console.log(chalk.gray(`\nProcess group: ${edit.process_group} (id: ${plan.groupId})\n`));
+        for (const line of plan.diff) {
+            if (line.change === '+') {
+                console.log(chalk.green(`  + ${line.text}`));
+            } else if (line.change === '-') {
+                console.log(chalk.red(`  - ${line.text}`));
+            } else {
+                console.log(chalk.gray(`    ${line.text}`));
+            }
+        }
+        console.log('');
+
+        if (plan.operations.length === 0) {
+            console.log(chalk.gray('Nothing to change.\n'));
+            return { status: 'no_changes', diff: plan.diff };
+        }
+
+        const confirm = readlineSync.question(chalk.yellow('Apply these changes? (yes/no): '));
+        if (confirm.toLowerCase() !== 'yes' && confirm.toLowerCase() !== 'y') {
+            console.log(chalk.gray('\nEdit cancelled.\n'));
+            return { status: 'cancelled', message: 'The user declined this edit.' };
+        }
+
+        const result = await this.flowEditor.applyEdit(plan);
+        for (const step of result.applied) {
+            console.log(chalk.green(`  ✓ ${step}`));
+        }
+        for (const error of result.errors) {
+            console.log(chalk.red(`  ✗ ${error}`));
+        }
+        for (const step of result.rolledBack) {
+            console.log(chalk.gray(`  ↩ Undid: ${step}`));
+        }
+        for (const error of result.rollbackErrors) {
+            console.log(chalk.yellow(`  ⚠ Could not undo: ${error}`));
+        }
+        if (result.success) {
+            console.log(chalk.green('\n✅ Edit applied.\n'));
+        } else if (result.rollbackErrors.length === 0) {
+            console.log(chalk.red('\n⚠️ Edit failed; the flow was put back as it was.\n'));
+        } else {
+            console.log(chalk.red('\n⚠️ Edit failed and could not be fully undone; check the flow in the NiFi UI.\n'));
+        }
+        return result;
+    }
+
+    private handleClarification(data: ClarificationRequest): unknown {
         console.log(chalk.white(`\nAgent: ${data.question}`));
         if (data.options && data.options.length > 0) {
             console.log(chalk.gray('\nOptions:'));
@@ -188,6 +612,22 @@ export class ConversationManager {
                 console.log(chalk.gray(`  ${i + 1}. ${opt}`));
             });
         }
-        console.log('');
+
+        if (data.secret) {
+            const secret = readlineSync.question(chalk.yellow('\nYou: '), { hideEchoBack: true, mask: '*' }).trim();
+            return { answer: this.secrets.add('answer', secret) };
+        }
+
+        const answer = readlineSync.question(chalk.yellow('\nYou: ')).trim();
+        // Accept an option number as shorthand for the option itself
+        const choice = parseInt(answer, 10);
+        if (data.options && String(choice) === answer && choice >= 1 && choice <= data.options.length) {
+            return { answer: data.options[choice - 1] };
+        }
+        return { answer };
     }
 }
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
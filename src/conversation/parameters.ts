@@ -0,0 +1,229 @@
+import readlineSync from 'readline-sync';
+import chalk from 'chalk';
+import { MissingParameter, ParameterType } from '../openai/service.js';
+import { SecretVault, isSecretName } from '../security/redaction.js';
+import { MASKED_VALUE } from '../nifi/parameters.js';
+
+// Interactive collection of the parameters an analysis asks for: typed validation, defaults,
+// going back, and a final review where any answer can be changed
+
+export interface ParameterCheck {
+    // Normalized value, e.g. "true" for "yes"
+    value?: string;
+    error?: string;
+}
+
+// Typed at any question to return to the previous one
+const BACK = '<';
+
+const SQL_START = /^(select|with|insert|update|delete|merge|upsert|call|exec|execute)\b/i;
+const MQTT_SCHEMES = ['tcp:', 'ssl:', 'ws:', 'wss:'];
+const TRUE_ANSWERS = ['true', 'yes', 'y', '1', 'on'];
+const FALSE_ANSWERS = ['false', 'no', 'n', '0', 'off'];
+
+export function parameterType(param: MissingParameter): ParameterType {
+    if (param.type === 'secret' || isSecretName(param.param_name)) {
+        return 'secret';
+    }
+    // Choices decide whether a parameter is an enum, whatever the model called it
+    const hasChoices = !!param.allowed_values && param.allowed_values.length > 0;
+    if (param.type === 'enum' || (!param.type && hasChoices)) {
+        return hasChoices ? 'enum' : 'string';
+    }
+    return param.type || 'string';
+}
+
+export function validateParameter(param: MissingParameter, raw: string): ParameterCheck {
+    const value = raw.trim();
+    switch (parameterType(param)) {
+        case 'uri':
+            return checkUri(param, value);
+        case 'host_port': {
+            const match = value.match(/^(\[[0-9a-fA-F:]+\]|[A-Za-z0-9.-]+):(\d{1,5})$/);
+            const port = match ? parseInt(match[2], 10) : 0;
+            return match && port >= 1 && port <= 65535
+                ? { value }
+                : { error: 'Expected host:port, e.g. broker.local:1883' };
+        }
+        case 'integer':
+            return /^-?\d+$/.test(value) ? { value: String(parseInt(value, 10)) } : { error: 'Expected a whole number' };
+        case 'enum': {
+            const allowed = param.allowed_values || [];
+            const match = allowed.find(a => a.toLowerCase() === value.toLowerCase());
+            return match !== undefined ? { value: match } : { error: `Expected one of: ${allowed.join(', ')}` };
+        }
+        case 'path':
+            return value.startsWith('/') || /^[A-Za-z]:[\\/]/.test(value)
+                ? { value }
+                : { error: 'Expected an absolute path on the NiFi host, e.g. /data/incoming' };
+        case 'sql':
+            return checkSql(value);
+        case 'boolean':
+            if (TRUE_ANSWERS.includes(value.toLowerCase())) {
+                return { value: 'true' };
+            }
+            return FALSE_ANSWERS.includes(value.toLowerCase()) ? { value: 'false' } : { error: 'Expected yes or no' };
+        case 'secret':
+        case 'string':
+            return { value };
+    }
+}
+
+export function collectParameters(params: MissingParameter[], secrets: SecretVault): Record<string, string> {
+    const answers: Record<string, string> = {};
+    console.log(chalk.gray(`  Press Enter to accept the [default], or type "${BACK}" to go back.\n`));
+
+    for (let i = 0; i < params.length;) {
+        const answer = ask(params[i], answers[params[i].param_name], secrets);
+        if (answer === BACK) {
+            i = Math.max(0, i - 1);
+            continue;
+        }
+        setAnswer(answers, params[i], answer);
+        i++;
+    }
+
+    // Review until the user accepts every answer
+    while (true) {
+        console.log(chalk.white('\n  Your answers:'));
+        params.forEach((param, i) => {
+            console.log(chalk.gray(`    ${i + 1}. ${param.prompt}: ${displayAnswer(param, answers[param.param_name])}`));
+        });
+        const choice = readlineSync.question(chalk.yellow('  Use these values? (yes, or a number to change it): ')).trim().toLowerCase();
+        if (choice === '' || choice === 'yes' || choice === 'y') {
+            return answers;
+        }
+        const index = parseInt(choice, 10) - 1;
+        if (String(index + 1) !== choice || index < 0 || index >= params.length) {
+            console.log(chalk.red(`  Type yes or a number from 1 to ${params.length}.`));
+            continue;
+        }
+        const answer = ask(params[index], answers[params[index].param_name], secrets);
+        if (answer !== BACK) {
+            setAnswer(answers, params[index], answer);
+        }
+    }
+}
+
+// Asks until the answer is valid; an existing answer becomes the default
+function ask(param: MissingParameter, current: string | undefined, secrets: SecretVault): string | undefined {
+    const type = parameterType(param);
+    const secret = type === 'secret';
+    const fallback = current ?? (secret ? undefined : param.default);
+
+    let prompt = param.prompt;
+    if (type === 'enum' && param.allowed_values) {
+        prompt += chalk.gray(` (${param.allowed_values.join('/')})`);
+    } else if (param.example && !secret) {
+        prompt += chalk.gray(` (e.g., ${param.example})`);
+    }
+    if (fallback !== undefined) {
+        prompt += chalk.gray(` [${secret ? MASKED_VALUE : fallback}]`);
+    }
+    prompt += param.required ? chalk.red(' *') : '';
+
+    while (true) {
+        const raw = readlineSync.question(chalk.yellow(`  ${prompt}: `), secret ? { hideEchoBack: true, mask: '*' } : {});
+        if (raw.trim() === BACK) {
+            return BACK;
+        }
+        if (!raw.trim()) {
+            if (fallback !== undefined) {
+                // A kept secret is already a placeholder
+                return fallback;
+            }
+            if (param.required) {
+                console.log(chalk.red('  This field is required. Please provide a value.'));
+                continue;
+            }
+            return undefined;
+        }
+
+        const check = validateParameter(param, raw);
+        if (check.error) {
+            console.log(chalk.red(`  ${check.error}`));
+            continue;
+        }
+        // Secrets are stored as a placeholder; the model never sees the value
+        return secret ? secrets.add(param.param_name, check.value!) : check.value;
+    }
+}
+
+function setAnswer(answers: Record<string, string>, param: MissingParameter, answer: string | undefined): void {
+    if (answer === undefined) {
+        delete answers[param.param_name];
+    } else {
+        answers[param.param_name] = answer;
+    }
+}
+
+function displayAnswer(param: MissingParameter, answer: string | undefined): string {
+    if (answer === undefined) {
+        return '(not set)';
+    }
+    return parameterType(param) === 'secret' ? MASKED_VALUE : answer;
+}
+
+function checkUri(param: MissingParameter, value: string): ParameterCheck {
+    if (value.toLowerCase().startsWith('jdbc:')) {
+        return checkJdbcUrl(value);
+    }
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch {
+        return { error: 'Expected a URI with a scheme, e.g. tcp://broker.local:1883 or https://api.example.com' };
+    }
+    if (/broker|mqtt/i.test(`${param.param_name} ${param.prompt}`) && !MQTT_SCHEMES.includes(url.protocol)) {
+        return { error: 'An MQTT broker URI must start with tcp:// or ssl:// (ws:// and wss:// for WebSockets)' };
+    }
+    if (!url.hostname && url.protocol !== 'file:') {
+        return { error: 'The URI is missing a host' };
+    }
+    return { value };
+}
+
+// jdbc:<driver>:<driver-specific part>; URL-style drivers (jdbc:postgresql://host:5432/db) also need a host
+function checkJdbcUrl(value: string): ParameterCheck {
+    const match = value.match(/^jdbc:([a-z0-9]+):(.+)$/i);
+    if (!match) {
+        return { error: 'Expected a JDBC URL such as jdbc:postgresql://db.local:5432/app' };
+    }
+    const rest = match[2];
+    if (rest.startsWith('//')) {
+        const authority = rest.slice(2).split(/[/;?]/)[0];
+        if (!/^[A-Za-z0-9.\-[\]:]+(:\d{1,5})?$/.test(authority) || authority.startsWith(':')) {
+            return { error: `The JDBC URL is missing a valid host after jdbc:${match[1]}://` };
+        }
+    }
+    return { value };
+}
+
+function checkSql(value: string): ParameterCheck {
+    if (!SQL_START.test(value)) {
+        return { error: 'Expected a SQL statement, e.g. SELECT * FROM orders' };
+    }
+    // Quotes and parentheses must balance outside string literals
+    let depth = 0;
+    let quote: string | null = null;
+    for (const char of value) {
+        if (quote) {
+            if (char === quote) {
+                quote = null;
+            }
+        } else if (char === '\'' || char === '"') {
+            quote = char;
+        } else if (char === '(') {
+            depth++;
+        } else if (char === ')' && --depth < 0) {
+            break;
+        }
+    }
+    if (quote) {
+        return { error: `Unclosed ${quote} in the statement` };
+    }
+    if (depth !== 0) {
+        return { error: 'Unbalanced parentheses in the statement' };
+    }
+    return { value };
+}
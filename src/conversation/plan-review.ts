@@ -0,0 +1,378 @@
+import readlineSync from 'readline-sync';
+import chalk from 'chalk';
+import { FlowDefinition } from '../openai/service.js';
+import { describeScheduling } from '../nifi/flow-builder.js';
+import { validateFlowDefinition, formatValidationReport, FlowValidationReport } from '../nifi/flow-validator.js';
+import { applyRelationshipPolicy, RelationshipPolicyResult } from '../nifi/relationship-policy.js';
+import { ConnectionEnd, FlowConnection, sourceOf, destinationOf, describeEnd, isRemote } from '../nifi/flow-definition.js';
+import { extractParameters, describeParameter, MASKED_VALUE } from '../nifi/parameters.js';
+import { processorCatalog, controllerServiceCatalog, getSchedulingSettings, isSensitiveProperty } from '../processors/catalog.js';
+import { SecretVault, isSecretName } from '../security/redaction.js';
+
+// Review of a proposed flow before it is built: the plan is shown, edited directly or through the
+// model, and revalidated after every change until the user approves or cancels it
+
+// Applies a plain-language change to the definition, or returns null when it could not
+export type PlanReviser = (definition: FlowDefinition, request: string) => Promise<FlowDefinition | null>;
+
+export interface PlanReview {
+    // 'invalid' only for the proposal as it arrived, so the model can fix its own mistakes
+    outcome: 'approved' | 'cancelled' | 'invalid';
+    // The reviewed definition with the relationship policy applied
+    definition: FlowDefinition;
+    validation: FlowValidationReport;
+}
+
+interface PlanEdit {
+    definition: FlowDefinition;
+    summary: string;
+}
+
+interface PlanTarget {
+    kind: 'processor' | 'service' | 'connection';
+    index: number;
+}
+
+const SET_COMMAND = /^set\s+(.+?)\s+on\s+(.+?)\s+to\s+(.*)$/i;
+const UNSET_COMMAND = /^unset\s+(.+?)\s+on\s+(.+)$/i;
+const REMOVE_COMMAND = /^(?:remove|delete)\s+(.+)$/i;
+
+export async function reviewPlan(proposed: FlowDefinition, revise: PlanReviser, secrets: SecretVault): Promise<PlanReview> {
+    let current = proposed;
+    let policy = applyRelationshipPolicy(current);
+    let validation = validateFlowDefinition(policy.definition);
+    printPlan(current, policy, validation);
+
+    if (!validation.valid) {
+        return { outcome: 'invalid', definition: policy.definition, validation };
+    }
+    printReviewHelp();
+
+    while (true) {
+        const input = readlineSync.question(chalk.yellow(validation.valid
+            ? 'Create this flow in NiFi? (yes/no, or a change): '
+            : 'Describe a change that fixes the plan, or "no" to cancel: ')).trim();
+        const answer = input.toLowerCase();
+        if (!input) {
+            continue;
+        }
+        if (answer === 'yes' || answer === 'y') {
+            if (validation.valid) {
+                return { outcome: 'approved', definition: policy.definition, validation };
+            }
+            console.log(chalk.red('The plan has errors; fix them before creating the flow.\n'));
+            continue;
+        }
+        if (answer === 'no' || answer === 'n') {
+            return { outcome: 'cancelled', definition: policy.definition, validation };
+        }
+        if (answer === 'help' || answer === '?') {
+            printReviewHelp();
+            continue;
+        }
+
+        const edit = applyPlanEdit(current, input, secrets);
+        if (edit) {
+            console.log(chalk.green(`  ✓ ${edit.summary}`));
+            current = edit.definition;
+        } else {
+            console.log(chalk.blue('\n🤖 Revising the plan...\n'));
+            try {
+                const revised = await revise(current, input);
+                if (!revised) {
+                    console.log(chalk.red('The agent did not return a revised plan; try rephrasing the change.\n'));
+                    continue;
+                }
+                current = revised;
+            } catch (error: any) {
+                console.log(chalk.red(`Could not revise the plan: ${error.message}\n`));
+                continue;
+            }
+        }
+
+        policy = applyRelationshipPolicy(current);
+        validation = validateFlowDefinition(policy.definition);
+        printPlan(current, policy, validation);
+    }
+}
+
+function printReviewHelp(): void {
+    console.log(chalk.gray('Change the plan before it is built:'));
+    console.log(chalk.gray('  set <property> on <processor or service> to <value>   e.g. set Topic on processor 2 to plant/line1'));
+    console.log(chalk.gray('  unset <property> on <processor or service>'));
+    console.log(chalk.gray('  remove <processor>, service <n> or connection <n>    e.g. remove LogAttribute'));
+    console.log(chalk.gray('Anything else is sent to the agent, e.g. "also archive the raw messages to /data/raw".\n'));
+}
+
+// Processors, graph, controller services, parameters and validation, with secrets and
+// environment values shown as the parameter references the build will use
+function printPlan(base: FlowDefinition, policy: RelationshipPolicyResult, validation: FlowValidationReport): void {
+    const flowDef = policy.definition;
+    const { definition: shown, parameters } = extractParameters(flowDef);
+    console.log(chalk.gray(`\nFlow: ${flowDef.flow_name}\n`));
+
+    console.log(chalk.white('Processors:'));
+    shown.processors.forEach((proc, i) => {
+        // Processors past the proposal were added by the relationship policy
+        const added = i >= base.processors.length ? ' (added)' : '';
+        console.log(chalk.gray(`  [${i + 1}] ${proc.name} (${proc.type})${added}`));
+        const scheduling = getSchedulingSettings(proc.type, proc.scheduling);
+        if (Object.keys(scheduling).length > 0) {
+            console.log(chalk.gray(`      schedule: ${describeScheduling(scheduling)}`));
+        }
+        if (proc.properties && Object.keys(proc.properties).length > 0) {
+            for (const [key, value] of Object.entries(proc.properties)) {
+                console.log(chalk.gray(`      ${key}: ${value}`));
+            }
+        } else {
+            console.log(chalk.yellow(`      (no properties configured)`));
+        }
+    });
+
+    if (flowDef.connections.length > 0) {
+        console.log(chalk.white('\nGraph:'));
+        for (const line of renderGraph(flowDef)) {
+            console.log(chalk.gray(`  ${line}`));
+        }
+    }
+
+    const services = shown.controller_services || [];
+    if (services.length > 0) {
+        console.log(chalk.white('\nController services:'));
+        services.forEach((service, i) => {
+            console.log(chalk.gray(`  [${i + 1}] ${service.name} (${service.type})`));
+            for (const [key, value] of Object.entries(service.properties || {})) {
+                console.log(chalk.gray(`      ${key}: ${value}`));
+            }
+            for (const reference of service.referenced_by || []) {
+                const user = flowDef.processors[reference.processor_index];
+                console.log(chalk.gray(`      used by [${reference.processor_index + 1}] ${user?.name ?? '?'} as ${reference.property_name}`));
+            }
+        });
+    }
+
+    const others = [
+        ...(flowDef.input_ports || []).map(p => `input port ${p.name}`),
+        ...(flowDef.output_ports || []).map(p => `output port ${p.name}`),
+        ...(flowDef.funnels || []).map((f, i) => f.name || `funnel ${i}`),
+        ...(flowDef.remote_process_groups || []).map(g => `remote process group ${g.name || g.target_uris}`),
+        ...(flowDef.labels || []).map(l => `label "${l.text.split('\n')[0]}"`),
+    ];
+    if (others.length > 0) {
+        console.log(chalk.white('\nOther components:'));
+        for (const other of others) {
+            console.log(chalk.gray(`  • ${other}`));
+        }
+    }
+    if (parameters.length > 0) {
+        console.log(chalk.white(`\nParameters (context "${flowDef.flow_name}"):`));
+        for (const parameter of parameters) {
+            console.log(chalk.gray(`  • ${describeParameter(parameter)}`));
+        }
+    }
+    if (policy.notes.length > 0) {
+        console.log(chalk.white('\nUnconnected relationships:'));
+        for (const note of policy.notes) {
+            console.log(chalk.gray(`  • ${note}`));
+        }
+    }
+    console.log('');
+
+    if (validation.errors.length > 0 || validation.warnings.length > 0) {
+        const report = formatValidationReport(validation);
+        console.log(validation.valid ? chalk.yellow(report) : chalk.red(report));
+        console.log('');
+    }
+}
+
+// Tree drawing of the connections, starting from components nothing flows into; a component
+// reached again is marked rather than drawn twice, so cycles end
+function renderGraph(definition: FlowDefinition): string[] {
+    const lines: string[] = [];
+    const outgoing = new Map<string, Array<{ number: number; connection: FlowConnection }>>();
+    const incoming = new Set<string>();
+    const ends: ConnectionEnd[] = [
+        ...definition.processors.map((_, index) => ({ kind: 'processor' as const, index })),
+        ...(definition.input_ports || []).map((_, index) => ({ kind: 'input_port' as const, index })),
+        ...(definition.funnels || []).map((_, index) => ({ kind: 'funnel' as const, index })),
+        ...(definition.output_ports || []).map((_, index) => ({ kind: 'output_port' as const, index })),
+    ];
+
+    definition.connections.forEach((connection, i) => {
+        const source = sourceOf(connection);
+        const edges = outgoing.get(endKey(source)) || [];
+        edges.push({ number: i + 1, connection });
+        outgoing.set(endKey(source), edges);
+        incoming.add(endKey(destinationOf(connection)));
+        if (isRemote(source.kind) && !ends.some(end => endKey(end) === endKey(source))) {
+            ends.push(source);
+        }
+    });
+
+    const drawn = new Set<string>();
+    const walk = (end: ConnectionEnd, indent: string) => {
+        const edges = outgoing.get(endKey(end)) || [];
+        edges.forEach((edge, i) => {
+            const last = i === edges.length - 1;
+            const target = destinationOf(edge.connection);
+            const seen = drawn.has(endKey(target));
+            const relationships = edge.connection.relationships.length > 0 ? ` ${edge.connection.relationships.join(', ')}` : '';
+            lines.push(`${indent}${last ? '└─' : '├─'} #${edge.number}${relationships} ─▶ ${nodeName(definition, target)}${seen ? ' (see above)' : ''}`);
+            if (!seen) {
+                drawn.add(endKey(target));
+                walk(target, indent + (last ? '   ' : '│  '));
+            }
+        });
+    };
+
+    // Roots first, then whatever only a cycle reaches
+    const roots = ends.filter(end => !incoming.has(endKey(end)));
+    for (const end of [...roots, ...ends]) {
+        if (drawn.has(endKey(end))) {
+            continue;
+        }
+        drawn.add(endKey(end));
+        lines.push(nodeName(definition, end));
+        walk(end, ' ');
+    }
+    return lines;
+}
+
+function endKey(end: ConnectionEnd): string {
+    return `${end.kind}:${end.index}:${end.remotePort ?? ''}`;
+}
+
+function nodeName(definition: FlowDefinition, end: ConnectionEnd): string {
+    return end.kind === 'processor'
+        ? `[${end.index + 1}] ${describeEnd(definition, end)}`
+        : describeEnd(definition, end);
+}
+
+// Direct edits typed at the review prompt. Anything that does not name an existing component and,
+// for set and unset, a property it knows is left to the model, which reads it as plain language
+function applyPlanEdit(definition: FlowDefinition, input: string, secrets: SecretVault): PlanEdit | null {
+    const result: FlowDefinition = JSON.parse(JSON.stringify(definition));
+
+    const set = input.match(SET_COMMAND);
+    const unset = set ? null : input.match(UNSET_COMMAND);
+    if (set || unset) {
+        const [, property, ref, value] = (set || unset)!;
+        const target = findTarget(result, ref);
+        if (!target || target.kind === 'connection') {
+            return null;
+        }
+
+        const component = target.kind === 'processor'
+            ? result.processors[target.index]
+            : result.controller_services![target.index];
+        const info = target.kind === 'processor'
+            ? processorCatalog[component.type] || Object.values(processorCatalog).find(entry => entry.type === component.type)
+            : controllerServiceCatalog[component.type] || Object.values(controllerServiceCatalog).find(entry => entry.type === component.type);
+        component.properties = component.properties || {};
+        const known = unset
+            ? Object.keys(component.properties)
+            : [
+                ...Object.keys(component.properties),
+                ...info?.requiredProperties || [],
+                ...info?.optionalProperties || [],
+                ...Object.keys(info?.defaultProperties || {}),
+                ...info?.sensitiveProperties || [],
+                ...Object.keys(info?.properties || {}),
+            ];
+        const name = known.find(key => key.toLowerCase() === property.trim().toLowerCase());
+        if (!name) {
+            return null;
+        }
+
+        if (unset) {
+            delete component.properties[name];
+            return { definition: result, summary: `Removed ${name} from ${component.name}` };
+        }
+        // Typed secrets are kept out of the plan the model may see again, like collected parameters
+        const secret = isSensitiveProperty(info, name) || isSecretName(name);
+        component.properties[name] = secret ? secrets.add(name, value.trim()) : value.trim();
+        return { definition: result, summary: `Set ${name} on ${component.name} to ${secret ? MASKED_VALUE : value.trim()}` };
+    }
+
+    const remove = input.match(REMOVE_COMMAND);
+    const target = remove ? findTarget(result, remove[1]) : null;
+    if (!target) {
+        return null;
+    }
+    switch (target.kind) {
+        case 'processor': {
+            const [removed] = result.processors.splice(target.index, 1);
+            removeProcessorReferences(result, target.index);
+            return { definition: result, summary: `Removed ${removed.name} and its connections` };
+        }
+        case 'service': {
+            const [removed] = result.controller_services!.splice(target.index, 1);
+            return { definition: result, summary: `Removed controller service ${removed.name}` };
+        }
+        case 'connection': {
+            const [removed] = result.connections.splice(target.index, 1);
+            const ends = `${describeEnd(result, sourceOf(removed))} → ${describeEnd(result, destinationOf(removed))}`;
+            return { definition: result, summary: `Removed connection #${target.index + 1} (${ends})` };
+        }
+    }
+}
+
+// "processor 2", "service 1", "connection 3", a bare number, or the name or type of exactly one
+// processor or service; null when nothing or more than one thing matches
+function findTarget(definition: FlowDefinition, ref: string): PlanTarget | null {
+    const text = ref.trim().replace(/^["']|["']$/g, '');
+    const services = definition.controller_services || [];
+    const numbered = text.match(/^(?:(processor|service|controller service|connection)\s+)?#?(\d+)$/i);
+    if (numbered) {
+        const kind = !numbered[1] || numbered[1].toLowerCase() === 'processor'
+            ? 'processor'
+            : numbered[1].toLowerCase() === 'connection' ? 'connection' : 'service';
+        const index = parseInt(numbered[2], 10) - 1;
+        const count = kind === 'processor' ? definition.processors.length
+            : kind === 'service' ? services.length
+            : definition.connections.length;
+        return index >= 0 && index < count ? { kind, index } : null;
+    }
+
+    const matches = (component: { name: string; type: string }) => {
+        const lower = text.toLowerCase();
+        return component.name.toLowerCase() === lower
+            || component.type.toLowerCase() === lower
+            || component.type.toLowerCase().endsWith(`.${lower}`);
+    };
+    const processors = definition.processors.flatMap((proc, index) => matches(proc) ? [index] : []);
+    const matchingServices = services.flatMap((service, index) => matches(service) ? [index] : []);
+    if (processors.length + matchingServices.length !== 1) {
+        return null;
+    }
+    return processors.length === 1
+        ? { kind: 'processor', index: processors[0] }
+        : { kind: 'service', index: matchingServices[0] };
+}
+
+// Drop everything that points at a removed processor and shift the indexes after it
+function removeProcessorReferences(definition: FlowDefinition, index: number): void {
+    const shift = (i: number) => (i > index ? i - 1 : i);
+    const isRemoved = (end: ConnectionEnd) => end.kind === 'processor' && end.index === index;
+
+    definition.connections = definition.connections.filter(c => !isRemoved(sourceOf(c)) && !isRemoved(destinationOf(c)));
+    for (const connDef of definition.connections) {
+        if ((connDef.from_type || 'processor') === 'processor') {
+            connDef.from_index = shift(connDef.from_index);
+        }
+        if ((connDef.to_type || 'processor') === 'processor') {
+            connDef.to_index = shift(connDef.to_index);
+        }
+    }
+    for (const label of definition.labels || []) {
+        if (label.processor_indexes) {
+            label.processor_indexes = label.processor_indexes.filter(i => i !== index).map(shift);
+        }
+    }
+    for (const serviceDef of definition.controller_services || []) {
+        if (serviceDef.referenced_by) {
+            serviceDef.referenced_by = serviceDef.referenced_by.filter(r => r.processor_index !== index)
+                .map(r => ({ ...r, processor_index: shift(r.processor_index) }));
+        }
+    }
+}
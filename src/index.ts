@@ -1,10 +1,19 @@
 #!/usr/bin/env node
 
-import { validateConfig } from './config/environment.js';
+import { config, validateConfig } from './config/environment.js';
 import { ConversationManager } from './conversation/manager.js';
+import { NiFiClient } from './nifi/client.js';
+import { OpenAIService } from './openai/service.js';
+import { loadWatchRules } from './watch/rules.js';
+import { FlowWatcher } from './watch/watcher.js';
 import chalk from 'chalk';
 
 async function main(): Promise<void> {
+    if (process.argv[2] === 'watch') {
+        await watch(process.argv.slice(3));
+        return;
+    }
+
     console.log(chalk.gray('\n🔧 NiFi Agent starting...\n'));
 
     // Validate configuration
@@ -22,4 +31,45 @@ async function main(): Promise<void> {
     }
 }
 
+// nifi-agent watch [--rules <file>] [--groups <a,b>] [--once]
+async function watch(args: string[]): Promise<void> {
+    const option = (name: string) => {
+        const i = args.indexOf(name);
+        return i >= 0 ? args[i + 1] : undefined;
+    };
+
+    try {
+        const rulesPath = option('--rules') || config.watch.rulesPath;
+        const { rules, fromFile } = loadWatchRules(rulesPath);
+        const groups = option('--groups');
+        if (groups) {
+            rules.groups = groups.split(',').map(g => g.trim()).filter(Boolean);
+        }
+        if (config.watch.webhookUrl) {
+            rules.alerts.webhookUrl = config.watch.webhookUrl;
+        }
+
+        validateConfig(rules.suggestFixes);
+
+        const client = new NiFiClient();
+        await client.authenticate();
+
+        console.log(chalk.cyan.bold('\n👀 NiFi Agent watch mode'));
+        console.log(chalk.gray(`  Rules: ${fromFile ? rulesPath : 'built-in defaults'}`));
+        console.log(chalk.gray(`  Groups: ${rules.groups.length > 0 ? rules.groups.join(', ') : 'flows created by the agent'}`));
+        console.log(chalk.gray(`  Alerts: ${rules.alerts.webhookUrl ? `${rules.alerts.format} webhook` : 'console only'}`));
+        console.log(chalk.gray(`  Every ${rules.intervalSeconds}s, Ctrl+C to stop\n`));
+
+        const watcher = new FlowWatcher(client, rules, rules.suggestFixes ? new OpenAIService() : undefined);
+        if (args.includes('--once')) {
+            await watcher.poll();
+        } else {
+            await watcher.run();
+        }
+    } catch (error: any) {
+        console.error(chalk.red(`\n❌ Fatal error: ${error.message}\n`));
+        process.exit(1);
+    }
+}
+
 main();
@@ -0,0 +1,102 @@
+import { AxiosInstance } from 'axios';
+import fs from 'fs';
+import https from 'https';
+import tls from 'tls';
+
+// How the agent proves its identity to NiFi, and which servers it trusts
+
+export type NiFiAuthMethod = 'password' | 'certificate' | 'token' | 'none';
+
+export interface TlsSettings {
+    // PEM bundle of CAs to trust in addition to Node's built-in roots, e.g. an internal CA
+    caPath: string;
+    // Client certificate for mutual TLS: PEM certificate and key, or a PKCS12 (.p12/.pfx) bundle
+    certPath: string;
+    keyPath: string;
+    pfxPath: string;
+    passphrase: string;
+    // Skip server certificate verification; only for throwaway dev instances
+    insecure: boolean;
+}
+
+export interface AuthSettings {
+    method: NiFiAuthMethod;
+    username: string;
+    password: string;
+    token: string;
+}
+
+export interface AuthStrategy {
+    method: NiFiAuthMethod;
+    // Whether a 401 can be fixed by logging in again
+    canReauthenticate: boolean;
+    authenticate(http: AxiosInstance): Promise<string>;
+}
+
+export function createHttpsAgent(settings: TlsSettings): https.Agent {
+    const read = (path: string) => (path ? fs.readFileSync(path) : undefined);
+    return new https.Agent({
+        // A custom "ca" replaces Node's bundled roots, so keep those alongside it
+        ca: settings.caPath ? [...tls.rootCertificates, fs.readFileSync(settings.caPath)] : undefined,
+        cert: read(settings.certPath),
+        key: read(settings.keyPath),
+        pfx: read(settings.pfxPath),
+        passphrase: settings.passphrase || undefined,
+        rejectUnauthorized: !settings.insecure,
+    });
+}
+
+// Each strategy resolves to a short description of who the agent is connected as
+export function createAuthStrategy(settings: AuthSettings): AuthStrategy {
+    switch (settings.method) {
+        case 'password':
+            return {
+                method: 'password',
+                canReauthenticate: true,
+                async authenticate(http) {
+                    const response = await http.post(
+                        '/access/token',
+                        `username=${encodeURIComponent(settings.username)}&password=${encodeURIComponent(settings.password)}`,
+                        {
+                            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                        }
+                    );
+                    http.defaults.headers.common['Authorization'] = `Bearer ${response.data}`;
+                    return settings.username;
+                },
+            };
+        case 'token':
+            return {
+                method: 'token',
+                // The same token would be refused again
+                canReauthenticate: false,
+                async authenticate(http) {
+                    http.defaults.headers.common['Authorization'] = `Bearer ${settings.token}`;
+                    return currentUser(http);
+                },
+            };
+        case 'certificate':
+            // The client certificate presented during the TLS handshake is the identity
+            return {
+                method: 'certificate',
+                canReauthenticate: false,
+                authenticate: currentUser,
+            };
+        case 'none':
+            return {
+                method: 'none',
+                canReauthenticate: false,
+                async authenticate() {
+                    return 'anonymous';
+                },
+            };
+    }
+}
+
+async function currentUser(http: AxiosInstance): Promise<string> {
+    const response = await http.get('/flow/current-user');
+    if (response.data.anonymous) {
+        throw new Error('NiFi did not recognise the credentials and treats this client as anonymous');
+    }
+    return response.data.identity;
+}
@@ -1,45 +1,75 @@
 import axios, { AxiosInstance } from 'axios';
-import https from 'https';
 import { config } from '../config/environment.js';
+import { applyRequestPolicy } from './request.js';
+import { AuthStrategy, createAuthStrategy, createHttpsAgent } from './auth.js';
 import {
     ProcessorEntity,
     ConnectionEntity,
     ControllerServiceEntity,
     ProcessGroupFlowEntity,
+    ProcessGroupEntity,
+    ProcessorDTO,
+    ProcessorConfigDTO,
+    ConnectionDTO,
     PositionDTO,
     BundleDTO,
+    DocumentedTypeDTO,
+    ComponentDefinitionDTO,
+    ConnectionSettings,
+    ConnectableDTO,
+    PortType,
+    PortEntity,
+    FunnelEntity,
+    LabelEntity,
+    RemoteProcessGroupEntity,
+    ProcessGroupStatusEntity,
+    BulletinEntity,
+    ProvenanceRequestDTO,
+    ProvenanceDTO,
+    ProvenanceEventDTO,
+    LineageDTO,
+    DropRequestDTO,
+    ParameterDTO,
+    ParameterContextEntity,
+    ParameterContextUpdateRequestDTO,
 } from './types.js';
 
 export class NiFiClient {
     private client: AxiosInstance;
-    private token: string | null = null;
+    private auth: AuthStrategy;
     private clientId: string;
 
     constructor() {
         this.clientId = `nifi-agent-${Date.now()}`;
         this.client = axios.create({
             baseURL: config.nifi.baseUrl,
-            httpsAgent: new https.Agent({ rejectUnauthorized: false }),
+            httpsAgent: config.nifi.baseUrl.startsWith('https:') ? createHttpsAgent(config.nifi.tls) : undefined,
+            timeout: config.nifi.request.timeoutMs,
             headers: {
                 'Content-Type': 'application/json',
             },
         });
+        this.auth = createAuthStrategy({
+            method: config.nifi.authMethod,
+            username: config.nifi.username,
+            password: config.nifi.password,
+            token: config.nifi.token,
+        });
+        applyRequestPolicy(this.client, {
+            ...config.nifi.request,
+            reauthenticate: this.auth.canReauthenticate ? () => this.authenticate() : undefined,
+            authPath: '/access/token',
+            onRetry: (reason, attempt, delayMs) =>
+                console.log(`  ↻ NiFi ${reason}, retry ${attempt}${delayMs > 0 ? ` in ${delayMs}ms` : ''}`),
+        });
     }
 
     async authenticate(): Promise<void> {
         try {
-            const response = await this.client.post(
-                '/access/token',
-                `username=${encodeURIComponent(config.nifi.username)}&password=${encodeURIComponent(config.nifi.password)}`,
-                {
-                    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-                }
-            );
-            this.token = response.data;
-            this.client.defaults.headers.common['Authorization'] = `Bearer ${this.token}`;
-            console.log('✓ Authenticated with NiFi');
+            const identity = await this.auth.authenticate(this.client);
+            console.log(`✓ Authenticated with NiFi as ${identity}`);
         } catch (error: any) {
-            throw new Error(`Failed to authenticate with NiFi: ${error.message}`);
+            throw new Error(`Failed to authenticate with NiFi (${this.auth.method}): ${error.message}`);
         }
     }
 
@@ -58,6 +88,57 @@ export class NiFiClient {
         return response.data;
     }
 
+    async getControllerServices(groupId: string): Promise<ControllerServiceEntity[]> {
+        const response = await this.client.get(`/flow/process-groups/${groupId}/controller-services`, {
+            params: { includeAncestorGroups: false, includeDescendantGroups: false },
+        });
+        return response.data.controllerServices;
+    }
+
+    async getProcessGroupStatus(groupId: string, recursive = true): Promise<ProcessGroupStatusEntity> {
+        const response = await this.client.get(`/flow/process-groups/${groupId}/status`, {
+            params: { recursive },
+        });
+        return response.data;
+    }
+
+    // Most recent bulletins first; groupId is a regular expression matched against the component's immediate group only
+    async getBulletins(options: { groupId?: string; sourceId?: string; limit?: number } = {}): Promise<BulletinEntity[]> {
+        const response = await this.client.get('/flow/bulletin-board', {
+            params: { groupId: options.groupId, sourceId: options.sourceId, limit: options.limit },
+        });
+        return response.data.bulletinBoard?.bulletins || [];
+    }
+
+    async createProcessGroup(
+        parentGroupId: string,
+        name: string,
+        position: PositionDTO,
+        comments?: string,
+        parameterContextId?: string
+    ): Promise<ProcessGroupEntity> {
+        const payload = {
+            revision: { version: 0, clientId: this.clientId },
+            component: {
+                name,
+                position,
+                comments,
+                parameterContext: parameterContextId ? { id: parameterContextId } : undefined,
+            },
+        };
+
+        const response = await this.client.post(
+            `/process-groups/${parentGroupId}/process-groups`,
+            payload
+        );
+        return response.data;
+    }
+
+    async getProcessGroup(groupId: string): Promise<ProcessGroupEntity> {
+        const response = await this.client.get(`/process-groups/${groupId}`);
+        return response.data;
+    }
+
     async createProcessor(
         groupId: string,
         name: string,
@@ -97,6 +178,36 @@ export class NiFiClient {
         return response.data;
     }
 
+    async updateProcessor(
+        processorId: string,
+        component: Partial<ProcessorDTO>,
+        currentVersion: number
+    ): Promise<ProcessorEntity> {
+        const response = await this.client.put(`/processors/${processorId}`, {
+            revision: { version: currentVersion, clientId: this.clientId },
+            component: {
+                ...component,
+                id: processorId,
+            },
+        });
+        return response.data;
+    }
+
+    async updateProcessorConfig(
+        processorId: string,
+        processorConfig: Partial<ProcessorConfigDTO>,
+        currentVersion: number
+    ): Promise<ProcessorEntity> {
+        const response = await this.client.put(`/processors/${processorId}`, {
+            revision: { version: currentVersion, clientId: this.clientId },
+            component: {
+                id: processorId,
+                config: processorConfig,
+            },
+        });
+        return response.data;
+    }
+
     async updateProcessorAutoTerminate(
         processorId: string,
         relationships: string[],
@@ -112,26 +223,21 @@ export class NiFiClient {
         return response.data;
     }
 
+    // Relationships only apply when the source is a processor; pass [] for ports and funnels
     async createConnection(
         groupId: string,
-        sourceId: string,
-        destinationId: string,
-        relationships: string[]
+        source: ConnectableDTO,
+        destination: ConnectableDTO,
+        relationships: string[],
+        settings: ConnectionSettings = {}
     ): Promise<ConnectionEntity> {
         const payload = {
             revision: { version: 0, clientId: this.clientId },
             component: {
-                source: {
-                    id: sourceId,
-                    groupId,
-                    type: 'PROCESSOR',
-                },
-                destination: {
-                    id: destinationId,
-                    groupId,
-                    type: 'PROCESSOR',
-                },
-                selectedRelationships: relationships,
+                ...settings,
+                source: { id: source.id, groupId: source.groupId, type: source.type },
+                destination: { id: destination.id, groupId: destination.groupId, type: destination.type },
+                ...(source.type === 'PROCESSOR' ? { selectedRelationships: relationships } : {}),
             },
         };
 
@@ -142,6 +248,114 @@ export class NiFiClient {
         return response.data;
     }
 
+    async updateConnection(
+        connectionId: string,
+        component: Partial<ConnectionDTO>,
+        currentVersion: number
+    ): Promise<ConnectionEntity> {
+        const response = await this.client.put(`/connections/${connectionId}`, {
+            revision: { version: currentVersion, clientId: this.clientId },
+            component: {
+                ...component,
+                id: connectionId,
+            },
+        });
+        return response.data;
+    }
+
+    async createPort(
+        groupId: string,
+        portType: PortType,
+        name: string,
+        position: PositionDTO,
+        comments?: string
+    ): Promise<PortEntity> {
+        const response = await this.client.post(`/process-groups/${groupId}/${portPath(portType)}`, {
+            revision: { version: 0, clientId: this.clientId },
+            component: { name, position, comments },
+        });
+        return response.data;
+    }
+
+    async getPort(portType: PortType, portId: string): Promise<PortEntity> {
+        const response = await this.client.get(`/${portPath(portType)}/${portId}`);
+        return response.data;
+    }
+
+    async createFunnel(groupId: string, position: PositionDTO): Promise<FunnelEntity> {
+        const response = await this.client.post(`/process-groups/${groupId}/funnels`, {
+            revision: { version: 0, clientId: this.clientId },
+            component: { position },
+        });
+        return response.data;
+    }
+
+    async getFunnel(funnelId: string): Promise<FunnelEntity> {
+        const response = await this.client.get(`/funnels/${funnelId}`);
+        return response.data;
+    }
+
+    async createLabel(
+        groupId: string,
+        label: string,
+        position: PositionDTO,
+        size: { width: number; height: number }
+    ): Promise<LabelEntity> {
+        const response = await this.client.post(`/process-groups/${groupId}/labels`, {
+            revision: { version: 0, clientId: this.clientId },
+            component: { label, position, ...size },
+        });
+        return response.data;
+    }
+
+    async getLabel(labelId: string): Promise<LabelEntity> {
+        const response = await this.client.get(`/labels/${labelId}`);
+        return response.data;
+    }
+
+    async createRemoteProcessGroup(
+        groupId: string,
+        targetUris: string,
+        position: PositionDTO,
+        transportProtocol: 'RAW' | 'HTTP' = 'HTTP',
+        comments?: string
+    ): Promise<RemoteProcessGroupEntity> {
+        const response = await this.client.post(`/process-groups/${groupId}/remote-process-groups`, {
+            revision: { version: 0, clientId: this.clientId },
+            component: { targetUris, position, transportProtocol, comments },
+        });
+        return response.data;
+    }
+
+    async getRemoteProcessGroup(remoteGroupId: string): Promise<RemoteProcessGroupEntity> {
+        const response = await this.client.get(`/remote-process-groups/${remoteGroupId}`);
+        return response.data;
+    }
+
+    // NiFi fetches the remote instance's ports in the background after the group is created
+    async waitForRemotePort(
+        remoteGroupId: string,
+        portType: PortType,
+        name: string,
+        timeoutMs = 30000
+    ): Promise<string> {
+        const deadline = Date.now() + timeoutMs;
+        while (true) {
+            const remoteGroup = await this.getRemoteProcessGroup(remoteGroupId);
+            const contents = remoteGroup.component.contents;
+            const ports = (portType === 'INPUT_PORT' ? contents?.inputPorts : contents?.outputPorts) || [];
+            const port = ports.find(p => p.name === name);
+            if (port) {
+                return port.id;
+            }
+            if (Date.now() > deadline) {
+                const known = ports.map(p => p.name).join(', ') || 'none';
+                throw new Error(`Remote ${portType === 'INPUT_PORT' ? 'input' : 'output'} port "${name}" not found on ${remoteGroup.component.targetUris} (available: ${known})`);
+            }
+            await new Promise(resolve => setTimeout(resolve, 1000));
+        }
+    }
+
     async createControllerService(
         groupId: string,
         name: string,
@@ -231,13 +445,384 @@ export class NiFiClient {
         return response.data;
     }
 
-    async getProcessorTypes(): Promise<any[]> {
+    async waitForProcessorState(
+        processorId: string,
+        state: 'RUNNING' | 'STOPPED',
+        timeoutMs = 30000
+    ): Promise<ProcessorEntity> {
+        const deadline = Date.now() + timeoutMs;
+        while (true) {
+            const processor = await this.getProcessor(processorId);
+            if (processor.component.state === state) {
+                return processor;
+            }
+            if (Date.now() > deadline) {
+                throw new Error(`Processor ${processorId} did not reach ${state} (currently ${processor.component.state})`);
+            }
+            await new Promise(resolve => setTimeout(resolve, 500));
+        }
+    }
+
+    // Processor once NiFi has finished validating it, e.g. after a service it references was enabled
+    async waitForProcessorValidation(processorId: string, timeoutMs = 30000): Promise<ProcessorEntity> {
+        const deadline = Date.now() + timeoutMs;
+        while (true) {
+            const processor = await this.getProcessor(processorId);
+            if (processor.component.validationStatus !== 'VALIDATING' || Date.now() > deadline) {
+                return processor;
+            }
+            await new Promise(resolve => setTimeout(resolve, 500));
+        }
+    }
+
+    async updatePortRunStatus(
+        portType: PortType,
+        portId: string,
+        state: 'RUNNING' | 'STOPPED',
+        currentVersion: number
+    ): Promise<PortEntity> {
+        const response = await this.client.put(`/${portPath(portType)}/${portId}/run-status`, {
+            revision: { version: currentVersion, clientId: this.clientId },
+            state,
+        });
+        return response.data;
+    }
+
+    async updateRemoteProcessGroupRunStatus(
+        remoteGroupId: string,
+        state: 'TRANSMITTING' | 'STOPPED',
+        currentVersion: number
+    ): Promise<RemoteProcessGroupEntity> {
+        const response = await this.client.put(`/remote-process-groups/${remoteGroupId}/run-status`, {
+            revision: { version: currentVersion, clientId: this.clientId },
+            state,
+        });
+        return response.data;
+    }
+
+    async getProcessor(processorId: string): Promise<ProcessorEntity> {
+        const response = await this.client.get(`/processors/${processorId}`);
+        return response.data;
+    }
+
+    async getConnection(connectionId: string): Promise<ConnectionEntity> {
+        const response = await this.client.get(`/connections/${connectionId}`);
+        return response.data;
+    }
+
+    async getControllerService(serviceId: string): Promise<ControllerServiceEntity> {
+        const response = await this.client.get(`/controller-services/${serviceId}`);
+        return response.data;
+    }
+
+    async waitForControllerServiceState(
+        serviceId: string,
+        state: 'ENABLED' | 'DISABLED',
+        timeoutMs = 30000
+    ): Promise<ControllerServiceEntity> {
+        const deadline = Date.now() + timeoutMs;
+        while (true) {
+            const service = await this.getControllerService(serviceId);
+            if (service.component.state === state) {
+                return service;
+            }
+            if (Date.now() > deadline) {
+                throw new Error(`Controller service ${serviceId} did not reach ${state} (currently ${service.component.state})`);
+            }
+            await new Promise(resolve => setTimeout(resolve, 500));
+        }
+    }
+
+    async deleteProcessor(processorId: string, currentVersion: number): Promise<ProcessorEntity> {
+        const response = await this.client.delete(`/processors/${processorId}`, {
+            params: { version: currentVersion, clientId: this.clientId },
+        });
+        return response.data;
+    }
+
+    async deleteConnection(connectionId: string, currentVersion: number): Promise<ConnectionEntity> {
+        const response = await this.client.delete(`/connections/${connectionId}`, {
+            params: { version: currentVersion, clientId: this.clientId },
+        });
+        return response.data;
+    }
+
+    async deleteControllerService(
+        serviceId: string,
+        currentVersion: number
+    ): Promise<ControllerServiceEntity> {
+        const response = await this.client.delete(`/controller-services/${serviceId}`, {
+            params: { version: currentVersion, clientId: this.clientId },
+        });
+        return response.data;
+    }
+
+    async deletePort(portType: PortType, portId: string, currentVersion: number): Promise<PortEntity> {
+        const response = await this.client.delete(`/${portPath(portType)}/${portId}`, {
+            params: { version: currentVersion, clientId: this.clientId },
+        });
+        return response.data;
+    }
+
+    async deleteFunnel(funnelId: string, currentVersion: number): Promise<FunnelEntity> {
+        const response = await this.client.delete(`/funnels/${funnelId}`, {
+            params: { version: currentVersion, clientId: this.clientId },
+        });
+        return response.data;
+    }
+
+    async deleteLabel(labelId: string, currentVersion: number): Promise<LabelEntity> {
+        const response = await this.client.delete(`/labels/${labelId}`, {
+            params: { version: currentVersion, clientId: this.clientId },
+        });
+        return response.data;
+    }
+
+    async deleteRemoteProcessGroup(
+        remoteGroupId: string,
+        currentVersion: number
+    ): Promise<RemoteProcessGroupEntity> {
+        const response = await this.client.delete(`/remote-process-groups/${remoteGroupId}`, {
+            params: { version: currentVersion, clientId: this.clientId },
+        });
+        return response.data;
+    }
+
+    async deleteProcessGroup(groupId: string, currentVersion: number): Promise<ProcessGroupEntity> {
+        const response = await this.client.delete(`/process-groups/${groupId}`, {
+            params: { version: currentVersion, clientId: this.clientId },
+        });
+        return response.data;
+    }
+
+    async listParameterContexts(): Promise<ParameterContextEntity[]> {
+        const response = await this.client.get('/flow/parameter-contexts');
+        return response.data.parameterContexts || [];
+    }
+
+    async getParameterContext(contextId: string): Promise<ParameterContextEntity> {
+        const response = await this.client.get(`/parameter-contexts/${contextId}`);
+        return response.data;
+    }
+
+    async createParameterContext(
+        name: string,
+        parameters: ParameterDTO[],
+        description?: string
+    ): Promise<ParameterContextEntity> {
+        const response = await this.client.post('/parameter-contexts', {
+            revision: { version: 0, clientId: this.clientId },
+            component: {
+                name,
+                description,
+                parameters: parameters.map(parameter => ({ parameter })),
+            },
+        });
+        return response.data;
+    }
+
+    async submitParameterContextUpdate(
+        contextId: string,
+        parameters: ParameterDTO[],
+        currentVersion: number
+    ): Promise<ParameterContextUpdateRequestDTO> {
+        const response = await this.client.post(`/parameter-contexts/${contextId}/update-requests`, {
+            revision: { version: currentVersion, clientId: this.clientId },
+            id: contextId,
+            component: {
+                id: contextId,
+                parameters: parameters.map(parameter => ({ parameter })),
+            },
+        });
+        return response.data.request;
+    }
+
+    async getParameterContextUpdate(contextId: string, requestId: string): Promise<ParameterContextUpdateRequestDTO> {
+        const response = await this.client.get(`/parameter-contexts/${contextId}/update-requests/${requestId}`);
+        return response.data.request;
+    }
+
+    async deleteParameterContextUpdate(contextId: string, requestId: string): Promise<void> {
+        await this.client.delete(`/parameter-contexts/${contextId}/update-requests/${requestId}`);
+    }
+
+    // Add or change parameters; ones not listed are left alone. NiFi stops and restarts
+    // the components that reference them while the update runs
+    async updateParameterContext(
+        contextId: string,
+        parameters: ParameterDTO[],
+        currentVersion: number,
+        timeoutMs = 60000
+    ): Promise<ParameterContextUpdateRequestDTO> {
+        let request = await this.submitParameterContextUpdate(contextId, parameters, currentVersion);
+        try {
+            const deadline = Date.now() + timeoutMs;
+            while (!request.complete) {
+                if (Date.now() > deadline) {
+                    throw new Error(`Parameter context update did not finish (${request.percentCompleted}% complete)`);
+                }
+                await new Promise(resolve => setTimeout(resolve, 500));
+                request = await this.getParameterContextUpdate(contextId, request.requestId);
+            }
+            if (request.failureReason) {
+                throw new Error(`Parameter context update failed: ${request.failureReason}`);
+            }
+            return request;
+        } finally {
+            await this.deleteParameterContextUpdate(contextId, request.requestId).catch(() => undefined);
+        }
+    }
+
+    async deleteParameterContext(contextId: string, currentVersion: number): Promise<ParameterContextEntity> {
+        const response = await this.client.delete(`/parameter-contexts/${contextId}`, {
+            params: { version: currentVersion, clientId: this.clientId },
+        });
+        return response.data;
+    }
+
+    async submitDropRequest(connectionId: string): Promise<DropRequestDTO> {
+        const response = await this.client.post(`/flowfile-queues/${connectionId}/drop-requests`);
+        return response.data.dropRequest;
+    }
+
+    async getDropRequest(connectionId: string, dropRequestId: string): Promise<DropRequestDTO> {
+        const response = await this.client.get(`/flowfile-queues/${connectionId}/drop-requests/${dropRequestId}`);
+        return response.data.dropRequest;
+    }
+
+    async deleteDropRequest(connectionId: string, dropRequestId: string): Promise<void> {
+        await this.client.delete(`/flowfile-queues/${connectionId}/drop-requests/${dropRequestId}`);
+    }
+
+    // Drop every FlowFile queued in a connection; the data is gone for good
+    async emptyQueue(connectionId: string, timeoutMs = 60000): Promise<DropRequestDTO> {
+        let request = await this.submitDropRequest(connectionId);
+        try {
+            const deadline = Date.now() + timeoutMs;
+            while (!request.finished) {
+                if (Date.now() > deadline) {
+                    throw new Error(`Emptying queue ${connectionId} did not finish (${request.percentCompleted}% complete)`);
+                }
+                await new Promise(resolve => setTimeout(resolve, 500));
+                request = await this.getDropRequest(connectionId, request.id);
+            }
+            if (request.failureReason) {
+                throw new Error(`Emptying queue ${connectionId} failed: ${request.failureReason}`);
+            }
+            return request;
+        } finally {
+            await this.deleteDropRequest(connectionId, request.id).catch(() => undefined);
+        }
+    }
+
+    async submitProvenanceQuery(request: ProvenanceRequestDTO): Promise<ProvenanceDTO> {
+        const response = await this.client.post('/provenance', { provenance: { request } });
+        return response.data.provenance;
+    }
+
+    async getProvenanceQuery(queryId: string): Promise<ProvenanceDTO> {
+        const response = await this.client.get(`/provenance/${queryId}`);
+        return response.data.provenance;
+    }
+
+    async deleteProvenanceQuery(queryId: string): Promise<void> {
+        await this.client.delete(`/provenance/${queryId}`);
+    }
+
+    // Submit, poll until NiFi has searched every repository partition, then clean up
+    async queryProvenance(request: ProvenanceRequestDTO, timeoutMs = 30000): Promise<ProvenanceEventDTO[]> {
+        let query = await this.submitProvenanceQuery(request);
+        try {
+            const deadline = Date.now() + timeoutMs;
+            while (!query.finished) {
+                if (Date.now() > deadline) {
+                    throw new Error(`Provenance query did not finish (${query.percentCompleted}% complete)`);
+                }
+                await new Promise(resolve => setTimeout(resolve, 500));
+                query = await this.getProvenanceQuery(query.id);
+            }
+            return query.results?.provenanceEvents || [];
+        } finally {
+            await this.deleteProvenanceQuery(query.id).catch(() => undefined);
+        }
+    }
+
+    async submitLineage(flowFileUuid: string, eventId?: number): Promise<LineageDTO> {
+        const response = await this.client.post('/provenance/lineage', {
+            lineage: { request: { lineageRequestType: 'FLOWFILE', uuid: flowFileUuid, eventId } },
+        });
+        return response.data.lineage;
+    }
+
+    async getLineage(lineageId: string): Promise<LineageDTO> {
+        const response = await this.client.get(`/provenance/lineage/${lineageId}`);
+        return response.data.lineage;
+    }
+
+    async deleteLineage(lineageId: string): Promise<void> {
+        await this.client.delete(`/provenance/lineage/${lineageId}`);
+    }
+
+    async queryLineage(flowFileUuid: string, eventId?: number, timeoutMs = 30000): Promise<LineageDTO> {
+        let lineage = await this.submitLineage(flowFileUuid, eventId);
+        try {
+            const deadline = Date.now() + timeoutMs;
+            while (!lineage.finished) {
+                if (Date.now() > deadline) {
+                    throw new Error(`Lineage query did not finish (${lineage.percentCompleted}% complete)`);
+                }
+                await new Promise(resolve => setTimeout(resolve, 500));
+                lineage = await this.getLineage(lineage.id);
+            }
+            return lineage;
+        } finally {
+            await this.deleteLineage(lineage.id).catch(() => undefined);
+        }
+    }
+
+    async getProvenanceEvent(eventId: string | number): Promise<ProvenanceEventDTO> {
+        const response = await this.client.get(`/provenance-events/${eventId}`);
+        return response.data.provenanceEvent;
+    }
+
+    // First bytes of a FlowFile's content before or after the event, decoded as UTF-8
+    async getProvenanceContent(
+        eventId: string | number,
+        direction: 'input' | 'output',
+        maxBytes = 1024
+    ): Promise<string> {
+        const response = await this.client.get(`/provenance-events/${eventId}/content/${direction}`, {
+            responseType: 'arraybuffer',
+            headers: { Range: `bytes=0-${maxBytes - 1}` },
+        });
+        return Buffer.from(response.data).subarray(0, maxBytes).toString('utf8');
+    }
+
+    async getProcessorTypes(): Promise<DocumentedTypeDTO[]> {
         const response = await this.client.get('/flow/processor-types');
         return response.data.processorTypes;
     }
 
-    async getControllerServiceTypes(): Promise<any[]> {
+    async getControllerServiceTypes(): Promise<DocumentedTypeDTO[]> {
         const response = await this.client.get('/flow/controller-service-types');
         return response.data.controllerServiceTypes;
     }
+
+    async getProcessorDefinition(bundle: BundleDTO, type: string): Promise<ComponentDefinitionDTO> {
+        const response = await this.client.get(
+            `/flow/processor-definition/${bundle.group}/${bundle.artifact}/${bundle.version}/${type}`
+        );
+        return response.data;
+    }
+
+    async getControllerServiceDefinition(bundle: BundleDTO, type: string): Promise<ComponentDefinitionDTO> {
+        const response = await this.client.get(
+            `/flow/controller-service-definition/${bundle.group}/${bundle.artifact}/${bundle.version}/${type}`
+        );
+        return response.data;
+    }
+}
+
+function portPath(portType: PortType): string {
+    return portType === 'INPUT_PORT' ? 'input-ports' : 'output-ports';
 }
@@ -0,0 +1,11 @@
+// Short display forms shared by the NiFi modules, so names and error messages read the same everywhere
+
+// "org.apache.nifi.processors.standard.ExecuteSQL" -> "ExecuteSQL"
+export function shortType(type: string): string {
+    return type.split('.').pop() || type;
+}
+
+// NiFi's own message for a failed API call when it sent one, otherwise the transport error
+export function describeError(error: any): string {
+    return error.response?.data?.message || (typeof error.response?.data === 'string' ? error.response.data : error.message);
+}
@@ -1,17 +1,79 @@
 import { NiFiClient } from './client.js';
-import { FlowDefinition } from '../openai/service.js';
-import { processorCatalog, controllerServiceCatalog } from '../processors/catalog.js';
+import { FlowDefinition, FlowComponentKind } from '../openai/service.js';
+import {
+    processorCatalog,
+    controllerServiceCatalog,
+    connectionDefaults,
+    prioritizerTypes,
+    getSchedulingSettings,
+} from '../processors/catalog.js';
+import { isFailureRelationship } from './relationship-policy.js';
+import { ConnectionSettings, SchedulingSettings, ConnectableDTO, ParameterDTO } from './types.js';
+import {
+    FlowConnection,
+    ConnectionEnd,
+    connectableTypes,
+    sourceOf,
+    destinationOf,
+    describeEnd,
+    isRemote,
+} from './flow-definition.js';
+import { extractParameters, describeParameter } from './parameters.js';
+import { SecretVault } from '../security/redaction.js';
+import { layoutFlowDefinition, existingBoxes, findFreeSpot, componentSizes } from './layout.js';
 import chalk from 'chalk';
+import { describeError } from './describe.js';
+
+// Marker comment on every process group the agent creates
+export const FLOW_GROUP_COMMENT = 'Created by NiFi Agent';
 
 export interface FlowBuildResult {
     success: boolean;
+    parentGroupId: string;
     processGroupId: string;
     processorIds: string[];
+    inputPortIds: string[];
+    outputPortIds: string[];
+    funnelIds: string[];
+    labelIds: string[];
+    remoteProcessGroupIds: string[];
     connectionIds: string[];
     controllerServiceIds: string[];
+    // Context holding the flow's secrets and environment-specific values, if it has any
+    parameterContextId?: string;
     errors: string[];
+    rolledBack: string[];
+    rollbackErrors: string[];
+}
+
+// A component created during a build, recorded so a failed build can be undone
+interface CreatedComponent {
+    kind:
+        | 'parameter context'
+        | 'process group'
+        | 'controller service'
+        | 'processor'
+        | 'input port'
+        | 'output port'
+        | 'funnel'
+        | 'label'
+        | 'remote process group'
+        | 'connection';
+    id: string;
+    name: string;
+}
+
+// NiFi ids of the created components, by kind and definition index
+type ComponentIds = Record<Exclude<FlowComponentKind, 'remote_input_port' | 'remote_output_port'> | 'remote_process_group', string[]>;
+
+interface BuildTransaction {
+    created: CreatedComponent[];
+    enabledServiceIds: string[];
 }
 
+// A build step failure that has already been logged
+class BuildStepError extends Error {}
+
 export class FlowBuilder {
     private client: NiFiClient;
 
@@ -19,21 +81,58 @@ export class FlowBuilder {
         this.client = client;
     }
 
-    async buildFlow(definition: FlowDefinition): Promise<FlowBuildResult> {
+    async buildFlow(proposed: FlowDefinition, secrets?: SecretVault): Promise<FlowBuildResult> {
+        // Secrets and environment-specific values become #{parameter} references
+        const extracted = extractParameters(proposed);
+        // Secret placeholders turn into real values only here, on their way to NiFi
+        const { definition, parameters } = secrets ? secrets.reveal(extracted) : extracted;
         const result: FlowBuildResult = {
             success: false,
+            parentGroupId: '',
             processGroupId: '',
             processorIds: [],
+            inputPortIds: [],
+            outputPortIds: [],
+            funnelIds: [],
+            labelIds: [],
+            remoteProcessGroupIds: [],
             connectionIds: [],
             controllerServiceIds: [],
             errors: [],
+            rolledBack: [],
+            rollbackErrors: [],
+        };
+        const transaction: BuildTransaction = {
+            created: [],
+            enabledServiceIds: [],
         };
 
         try {
-            // Get root process group
-            const rootGroupId = await this.client.getRootProcessGroupId();
-            result.processGroupId = rootGroupId;
-            console.log(chalk.blue(`Using process group: ${rootGroupId}`));
+            // Resolve the parent group: an explicit target group, or root
+            const parentGroupId = definition.target_group || await this.client.getRootProcessGroupId();
+            const parentFlow = await this.client.getProcessGroupFlow(parentGroupId);
+            result.parentGroupId = parentGroupId;
+
+            // Place the new group in free space on the parent canvas
+            const groupPosition = findFreeSpot(existingBoxes(parentFlow), componentSizes.processGroup);
+
+            if (parameters.length > 0) {
+                result.parameterContextId = await this.prepareParameterContext(definition.flow_name, parameters, transaction);
+            }
+
+            // Create a dedicated process group for this flow
+            console.log(chalk.yellow(`Creating process group: ${definition.flow_name}...`));
+            const group = await this.client.createProcessGroup(
+                parentGroupId,
+                definition.flow_name,
+                groupPosition,
+                FLOW_GROUP_COMMENT,
+                result.parameterContextId
+            );
+            const groupId = group.component.id!;
+            result.processGroupId = groupId;
+            transaction.created.push({ kind: 'process group', id: groupId, name: definition.flow_name });
+            console.log(chalk.green(`  ✓ Created: ${definition.flow_name} (id: ${groupId})`));
 
             // Step 1: Create controller services first
             const serviceIdMap: Record<number, string> = {};
@@ -44,11 +143,12 @@ export class FlowBuilder {
 
                     const serviceInfo = controllerServiceCatalog[serviceDef.type];
                     const serviceType = serviceInfo?.type || serviceDef.type;
-                    const bundle = serviceInfo?.bundle;
+                    // Only trust bundles reported by NiFi itself
+                    const bundle = serviceInfo?.discovered ? serviceInfo.bundle : undefined;
 
                     try {
                         const service = await this.client.createControllerService(
-                            rootGroupId,
+                            groupId,
                             serviceDef.name,
                             serviceType,
                             serviceDef.properties,
@@ -57,35 +157,35 @@ export class FlowBuilder {
                         const serviceId = service.component.id!;
                         serviceIdMap[i] = serviceId;
                         result.controllerServiceIds.push(serviceId);
+                        transaction.created.push({ kind: 'controller service', id: serviceId, name: serviceDef.name });
                         console.log(chalk.green(`  ✓ Created: ${serviceDef.name}`));
 
-                        // Enable the controller service
-                        const version = service.revision.version;
-                        await this.client.enableControllerService(serviceId, version);
-                        console.log(chalk.green(`  ✓ Enabled: ${serviceDef.name}`));
+                        // Enable the controller service; an invalid one stays disabled so it can be repaired
+                        try {
+                            const version = service.revision.version;
+                            await this.client.enableControllerService(serviceId, version);
+                            transaction.enabledServiceIds.push(serviceId);
+                            console.log(chalk.green(`  ✓ Enabled: ${serviceDef.name}`));
+                        } catch (enableError: any) {
+                            const latest = await this.client.getControllerService(serviceId);
+                            if (latest.component.validationStatus !== 'INVALID') {
+                                throw enableError;
+                            }
+                            console.log(chalk.yellow(`  ⚠ Left disabled (INVALID): ${serviceDef.name}`));
+                            for (const err of latest.component.validationErrors || []) {
+                                console.log(chalk.yellow(`      - ${err}`));
+                            }
+                        }
                     } catch (error: any) {
                         const errorMsg = `Failed to create controller service ${serviceDef.name}: ${error.message}`;
                         console.log(chalk.red(`  ✗ ${errorMsg}`));
-                        result.errors.push(errorMsg);
+                        throw new Error(errorMsg);
                     }
                 }
             }
 
-            // Step 2: Create processors
-            // First, find the rightmost position of existing processors to avoid overlap
-            const existingFlow = await this.client.getProcessGroupFlow(rootGroupId);
-            const existingProcessors = existingFlow.processGroupFlow.flow.processors || [];
-            let startX = 100;
-            const startY = 100;
-            const spacingY = 200;
-            const spacingX = 450;
-
-            if (existingProcessors.length > 0) {
-                // Find the rightmost X position
-                const maxX = Math.max(...existingProcessors.map(p => p.component.position?.x || 0));
-                startX = maxX + spacingX;
-                console.log(chalk.gray(`  Positioning new flow at x=${startX} (offset from existing processors)`));
-            }
+            // Step 2: Create processors inside the new (empty) group
+            const layout = layoutFlowDefinition(definition);
 
             const processorIdMap: Record<number, string> = {};
             const processorVersionMap: Record<number, number> = {};
@@ -96,23 +196,24 @@ export class FlowBuilder {
 
                 const procInfo = processorCatalog[procDef.type];
                 const processorType = procInfo?.type || procDef.type;
-                // Don't pass bundle - let NiFi auto-detect from processor type
+                // Only pass bundles discovered from NiFi; otherwise let NiFi auto-detect
+                const bundle = procInfo?.discovered ? procInfo.bundle : undefined;
 
-                // Calculate position
-                const position = { x: startX, y: startY + i * spacingY };
+                const position = layout.processors[i];
 
                 try {
                     const processor = await this.client.createProcessor(
-                        rootGroupId,
+                        groupId,
                         procDef.name,
                         processorType,
-                        position
-                        // No bundle - NiFi will find it automatically
+                        position,
+                        bundle
                     );
                     const processorId = processor.component.id!;
                     processorIdMap[i] = processorId;
                     processorVersionMap[i] = processor.revision.version;
                     result.processorIds.push(processorId);
+                    transaction.created.push({ kind: 'processor', id: processorId, name: procDef.name });
                     console.log(chalk.green(`  ✓ Created: ${procDef.name} (id: ${processorId})`));
 
                     // Merge default properties from catalog with provided properties
@@ -144,17 +245,6 @@ export class FlowBuilder {
                         if (!properties['Data Format']) properties['Data Format'] = 'Text';
                     }
 
-                    // Auto-terminate relationships for leaf processors (like PublishMQTT) if not connected
-                    // We'll check this by seeing if this processor is a source in any connection
-                    const isSource = definition.connections.some(c => c.from_index === i);
-
-                    if (!isSource && processorType.includes('PublishMQTT')) {
-                        // If it's a sink (not a source), auto-terminate success and failure
-                        if (!procDef.auto_terminate) procDef.auto_terminate = [];
-                        if (!procDef.auto_terminate.includes('success')) procDef.auto_terminate.push('success');
-                        if (!procDef.auto_terminate.includes('failure')) procDef.auto_terminate.push('failure');
-                    }
-
                     // Replace controller service references with IDs
                     if (definition.controller_services) {
                         for (const serviceDef of definition.controller_services) {
@@ -170,7 +260,7 @@ export class FlowBuilder {
                     }
 
                     if (Object.keys(properties).length > 0) {
-                        console.log(chalk.gray(`    Properties to set: ${JSON.stringify(properties)}`));
+                        console.log(chalk.gray(`    Properties to set: ${Object.keys(properties).join(', ')}`));
                         try {
                             const updated = await this.client.updateProcessorProperties(
                                 processorId,
@@ -191,11 +281,11 @@ export class FlowBuilder {
                                 }
                             }
                         } catch (propError: any) {
-                            console.log(chalk.red(`  ✗ Failed to set properties: ${propError.response?.data?.message || propError.message}`));
+                            console.log(chalk.red(`  ✗ Failed to set properties: ${describeError(propError)}`));
                             if (propError.response?.data) {
                                 console.log(chalk.gray(`    Response: ${JSON.stringify(propError.response.data)}`));
                             }
-                            result.errors.push(`Failed to configure ${procDef.name}: ${propError.message}`);
+                            throw new BuildStepError(`Failed to configure ${procDef.name}: ${propError.message}`);
                         }
                     } else {
                         console.log(chalk.yellow(`  ⚠ No properties to set for ${procDef.name}`));
@@ -211,50 +301,308 @@ export class FlowBuilder {
                         processorVersionMap[i] = updated.revision.version;
                         console.log(chalk.green(`  ✓ Auto-terminated: ${procDef.auto_terminate.join(', ')}`));
                     }
+
+                    const scheduling = getSchedulingSettings(procDef.type, procDef.scheduling);
+                    if (Object.keys(scheduling).length > 0) {
+                        const updated = await this.client.updateProcessorConfig(
+                            processorId,
+                            scheduling,
+                            processorVersionMap[i]
+                        );
+                        processorVersionMap[i] = updated.revision.version;
+                        console.log(chalk.green(`  ✓ Scheduled: ${describeScheduling(scheduling)}`));
+                    }
                 } catch (error: any) {
+                    if (error instanceof BuildStepError) {
+                        throw error;
+                    }
                     const errorMsg = `Failed to create processor ${procDef.name}: ${error.message}`;
                     console.log(chalk.red(`  ✗ ${errorMsg}`));
-                    result.errors.push(errorMsg);
+                    throw new BuildStepError(errorMsg);
                 }
             }
 
-            // Step 3: Create connections
-            for (const connDef of definition.connections) {
-                const sourceId = processorIdMap[connDef.from_index];
-                const destId = processorIdMap[connDef.to_index];
+            // Step 3: Create ports, funnels, remote process groups and labels
+            const componentIds: ComponentIds = {
+                processor: definition.processors.map((_, i) => processorIdMap[i]),
+                input_port: [],
+                output_port: [],
+                funnel: [],
+                remote_process_group: [],
+            };
 
-                if (!sourceId || !destId) {
-                    const errorMsg = `Cannot create connection: source or destination processor not found`;
-                    console.log(chalk.red(`  ✗ ${errorMsg}`));
-                    result.errors.push(errorMsg);
-                    continue;
-                }
+            for (const [i, portDef] of (definition.input_ports || []).entries()) {
+                const port = await this.createComponent(transaction, 'input port', portDef.name, () =>
+                    this.client.createPort(groupId, 'INPUT_PORT', portDef.name, layout.inputPorts[i], portDef.comments));
+                componentIds.input_port.push(port.component.id!);
+                result.inputPortIds.push(port.component.id!);
+            }
+            for (const [i, portDef] of (definition.output_ports || []).entries()) {
+                const port = await this.createComponent(transaction, 'output port', portDef.name, () =>
+                    this.client.createPort(groupId, 'OUTPUT_PORT', portDef.name, layout.outputPorts[i], portDef.comments));
+                componentIds.output_port.push(port.component.id!);
+                result.outputPortIds.push(port.component.id!);
+            }
+            for (const [i, funnelDef] of (definition.funnels || []).entries()) {
+                const funnel = await this.createComponent(transaction, 'funnel', funnelDef.name || `funnel ${i}`, () =>
+                    this.client.createFunnel(groupId, layout.funnels[i]));
+                componentIds.funnel.push(funnel.component.id!);
+                result.funnelIds.push(funnel.component.id!);
+            }
+            for (const [i, remoteDef] of (definition.remote_process_groups || []).entries()) {
+                const remoteGroup = await this.createComponent(transaction, 'remote process group', remoteDef.name || remoteDef.target_uris, () =>
+                    this.client.createRemoteProcessGroup(
+                        groupId,
+                        remoteDef.target_uris,
+                        layout.remoteProcessGroups[i],
+                        remoteDef.transport_protocol,
+                        remoteDef.comments
+                    ));
+                componentIds.remote_process_group.push(remoteGroup.component.id!);
+                result.remoteProcessGroupIds.push(remoteGroup.component.id!);
+            }
+            for (const [i, labelDef] of (definition.labels || []).entries()) {
+                const { x, y, width, height } = layout.labels[i];
+                const label = await this.createComponent(transaction, 'label', labelDef.text.split('\n')[0], () =>
+                    this.client.createLabel(groupId, labelDef.text, { x, y }, { width, height }));
+                result.labelIds.push(label.component.id!);
+            }
 
-                const sourceName = definition.processors[connDef.from_index].name;
-                const destName = definition.processors[connDef.to_index].name;
+            // Step 4: Create connections
+            for (const connDef of definition.connections) {
+                const sourceEnd = sourceOf(connDef);
+                const destinationEnd = destinationOf(connDef);
+                const sourceName = describeEnd(definition, sourceEnd);
+                const destName = describeEnd(definition, destinationEnd);
                 console.log(chalk.yellow(`Connecting: ${sourceName} → ${destName}...`));
 
                 try {
+                    const source = await this.resolveEnd(sourceEnd, componentIds, groupId);
+                    const destination = await this.resolveEnd(destinationEnd, componentIds, groupId);
+                    const sourceType = sourceEnd.kind === 'processor' ? definition.processors[sourceEnd.index].type : undefined;
+                    const relationships = sourceEnd.kind === 'processor' ? connDef.relationships : [];
                     const connection = await this.client.createConnection(
-                        rootGroupId,
-                        sourceId,
-                        destId,
-                        connDef.relationships
+                        groupId,
+                        source,
+                        destination,
+                        relationships,
+                        connectionSettingsFor(connDef, sourceType)
                     );
                     result.connectionIds.push(connection.component.id!);
-                    console.log(chalk.green(`  ✓ Connected via: ${connDef.relationships.join(', ')}`));
+                    transaction.created.push({
+                        kind: 'connection',
+                        id: connection.component.id!,
+                        name: `${sourceName} → ${destName}`,
+                    });
+                    console.log(chalk.green(relationships.length > 0
+                        ? `  ✓ Connected via: ${relationships.join(', ')}`
+                        : '  ✓ Connected'));
                 } catch (error: any) {
                     const errorMsg = `Failed to connect ${sourceName} → ${destName}: ${error.message}`;
                     console.log(chalk.red(`  ✗ ${errorMsg}`));
-                    result.errors.push(errorMsg);
+                    throw new Error(errorMsg);
                 }
             }
 
-            result.success = result.errors.length === 0;
+            result.success = true;
             return result;
         } catch (error: any) {
             result.errors.push(`Flow build failed: ${error.message}`);
+            await this.rollback(transaction, result);
             return result;
         }
     }
+
+    // Undo a failed build: disable what was enabled, then delete everything that was created,
+    // newest first. Builds never start processors, so there is nothing to stop
+    private async rollback(transaction: BuildTransaction, result: FlowBuildResult): Promise<void> {
+        if (transaction.created.length === 0) {
+            return;
+        }
+        console.log(chalk.yellow('\n↩ Rolling back partially built flow...'));
+
+        for (const serviceId of transaction.enabledServiceIds) {
+            try {
+                const service = await this.client.getControllerService(serviceId);
+                await this.client.disableControllerService(serviceId, service.revision.version);
+                await this.client.waitForControllerServiceState(serviceId, 'DISABLED');
+            } catch (error: any) {
+                result.rollbackErrors.push(`Failed to disable controller service ${serviceId}: ${error.message}`);
+            }
+        }
+
+        for (const component of [...transaction.created].reverse()) {
+            const label = `${component.kind} ${component.name} (id: ${component.id})`;
+            try {
+                await this.deleteComponent(component);
+                result.rolledBack.push(label);
+                console.log(chalk.gray(`  ✓ Removed ${label}`));
+            } catch (error: any) {
+                const message = describeError(error);
+                result.rollbackErrors.push(`Failed to remove ${label}: ${message}`);
+                console.log(chalk.red(`  ✗ Failed to remove ${label}: ${message}`));
+            }
+        }
+    }
+
+    // Every build gets a context of its own, named after the flow. Reusing one by name would let a
+    // second flow with the same name overwrite the first one's values, secrets included
+    private async prepareParameterContext(
+        name: string,
+        parameters: ParameterDTO[],
+        transaction: BuildTransaction
+    ): Promise<string> {
+        try {
+            const taken = new Set((await this.client.listParameterContexts()).map(c => c.component.name));
+            let contextName = name;
+            for (let i = 2; taken.has(contextName); i++) {
+                contextName = `${name} (${i})`;
+            }
+
+            console.log(chalk.yellow(`Creating parameter context: ${contextName}...`));
+            const context = await this.client.createParameterContext(contextName, parameters, `Parameters for the ${name} flow`);
+            const contextId = context.component.id!;
+            transaction.created.push({ kind: 'parameter context', id: contextId, name: contextName });
+            console.log(chalk.green(`  ✓ Created: ${contextName} (id: ${contextId})`));
+            for (const parameter of parameters) {
+                console.log(chalk.gray(`    ${describeParameter(parameter)}`));
+            }
+            return contextId;
+        } catch (error: any) {
+            const errorMsg = `Failed to prepare parameter context ${name}: ${describeError(error)}`;
+            console.log(chalk.red(`  ✗ ${errorMsg}`));
+            throw new BuildStepError(errorMsg);
+        }
+    }
+
+    // Create one non-processor component, recording it for rollback
+    private async createComponent<T extends { component: { id?: string } }>(
+        transaction: BuildTransaction,
+        kind: CreatedComponent['kind'],
+        name: string,
+        create: () => Promise<T>
+    ): Promise<T> {
+        console.log(chalk.yellow(`Creating ${kind}: ${name}...`));
+        try {
+            const entity = await create();
+            transaction.created.push({ kind, id: entity.component.id!, name });
+            console.log(chalk.green(`  ✓ Created: ${name} (id: ${entity.component.id})`));
+            return entity;
+        } catch (error: any) {
+            const errorMsg = `Failed to create ${kind} ${name}: ${describeError(error)}`;
+            console.log(chalk.red(`  ✗ ${errorMsg}`));
+            throw new BuildStepError(errorMsg);
+        }
+    }
+
+    // The NiFi endpoint for one end of a connection; remote ports are looked up by name
+    private async resolveEnd(end: ConnectionEnd, ids: ComponentIds, groupId: string): Promise<ConnectableDTO> {
+        if (isRemote(end.kind)) {
+            const remoteGroupId = ids.remote_process_group[end.index];
+            const portType = end.kind === 'remote_input_port' ? 'INPUT_PORT' : 'OUTPUT_PORT';
+            const portId = await this.client.waitForRemotePort(remoteGroupId, portType, end.remotePort!);
+            return { id: portId, groupId: remoteGroupId, type: connectableTypes[end.kind] };
+        }
+        const id = ids[end.kind as Exclude<FlowComponentKind, 'remote_input_port' | 'remote_output_port'>][end.index];
+        if (!id) {
+            throw new Error(`No ${end.kind} at index ${end.index}`);
+        }
+        return { id, groupId, type: connectableTypes[end.kind] };
+    }
+
+    private async deleteComponent(component: CreatedComponent): Promise<void> {
+        switch (component.kind) {
+            case 'connection': {
+                const connection = await this.client.getConnection(component.id);
+                await this.client.deleteConnection(component.id, connection.revision.version);
+                break;
+            }
+            case 'processor': {
+                const processor = await this.client.getProcessor(component.id);
+                await this.client.deleteProcessor(component.id, processor.revision.version);
+                break;
+            }
+            case 'controller service': {
+                const service = await this.client.getControllerService(component.id);
+                await this.client.deleteControllerService(component.id, service.revision.version);
+                break;
+            }
+            case 'input port':
+            case 'output port': {
+                const portType = component.kind === 'input port' ? 'INPUT_PORT' : 'OUTPUT_PORT';
+                const port = await this.client.getPort(portType, component.id);
+                await this.client.deletePort(portType, component.id, port.revision.version);
+                break;
+            }
+            case 'funnel': {
+                const funnel = await this.client.getFunnel(component.id);
+                await this.client.deleteFunnel(component.id, funnel.revision.version);
+                break;
+            }
+            case 'label': {
+                const label = await this.client.getLabel(component.id);
+                await this.client.deleteLabel(component.id, label.revision.version);
+                break;
+            }
+            case 'remote process group': {
+                const remoteGroup = await this.client.getRemoteProcessGroup(component.id);
+                await this.client.deleteRemoteProcessGroup(component.id, remoteGroup.revision.version);
+                break;
+            }
+            case 'process group': {
+                const group = await this.client.getProcessGroup(component.id);
+                await this.client.deleteProcessGroup(component.id, group.revision.version);
+                break;
+            }
+            case 'parameter context': {
+                const context = await this.client.getParameterContext(component.id);
+                await this.client.deleteParameterContext(component.id, context.revision.version);
+                break;
+            }
+        }
+    }
+}
+
+// Catalog-wide defaults, then the source processor's defaults, then the flow definition
+function connectionSettingsFor(connDef: FlowConnection, sourceType?: string): ConnectionSettings {
+    const isFailurePath = connDef.relationships.length > 0 && connDef.relationships.every(isFailureRelationship);
+    const explicit: ConnectionSettings = {
+        backPressureObjectThreshold: connDef.back_pressure_object_threshold,
+        backPressureDataSizeThreshold: connDef.back_pressure_data_size_threshold,
+        flowFileExpiration: connDef.flow_file_expiration,
+        prioritizers: connDef.prioritizers,
+        loadBalanceStrategy: connDef.load_balance_strategy,
+        loadBalancePartitionAttribute: connDef.load_balance_partition_attribute,
+        loadBalanceCompression: connDef.load_balance_compression,
+    };
+    const settings: ConnectionSettings = {
+        ...(isFailurePath ? connectionDefaults.failure : connectionDefaults.standard),
+        ...(isFailurePath || !sourceType ? {} : processorCatalog[sourceType]?.connectionDefaults),
+    };
+    for (const [key, value] of Object.entries(explicit)) {
+        if (value !== undefined) {
+            (settings as Record<string, unknown>)[key] = value;
+        }
+    }
+
+    // NiFi expects fully qualified prioritizer classes
+    if (settings.prioritizers) {
+        settings.prioritizers = settings.prioritizers.map(p => prioritizerTypes[p] || p);
+    }
+    return settings;
+}
+
+// e.g. "CRON_DRIVEN 0 0 2 * * ?, 1 task"
+export function describeScheduling(scheduling: SchedulingSettings): string {
+    const parts = [
+        [scheduling.schedulingStrategy, scheduling.schedulingPeriod].filter(Boolean).join(' '),
+    ];
+    if (scheduling.concurrentlySchedulableTaskCount !== undefined) {
+        const tasks = scheduling.concurrentlySchedulableTaskCount;
+        parts.push(`${tasks} task${tasks === 1 ? '' : 's'}`);
+    }
+    if (scheduling.runDurationMillis) {
+        parts.push(`run duration ${scheduling.runDurationMillis} ms`);
+    }
+    return parts.filter(Boolean).join(', ');
 }
@@ -0,0 +1,315 @@
+import { NiFiClient } from './client.js';
+import { resolveProcessGroupId } from './process-groups.js';
+import {
+    ProcessorEntity,
+    ControllerServiceEntity,
+    PortEntity,
+    PortType,
+    RemoteProcessGroupEntity,
+} from './types.js';
+import { describeError } from './describe.js';
+
+export type FlowAction = 'start' | 'stop' | 'restart';
+
+export interface ComponentRunStatus {
+    kind: 'processor' | 'controller service' | 'input port' | 'output port' | 'remote process group';
+    id: string;
+    name: string;
+    // Process group path below the controlled group, empty for the group itself
+    group: string;
+    state: string;
+    error?: string;
+}
+
+export interface FlowControlSummary {
+    action: FlowAction;
+    processGroupId: string;
+    processGroupName: string;
+    success: boolean;
+    components: ComponentRunStatus[];
+    failed: ComponentRunStatus[];
+}
+
+// Everything in a process group and its descendants that has a run state
+interface GroupContents {
+    name: string;
+    processors: Array<{ entity: ProcessorEntity; group: string }>;
+    ports: Array<{ entity: PortEntity; portType: PortType; group: string }>;
+    remoteGroups: Array<{ entity: RemoteProcessGroupEntity; group: string }>;
+    services: Array<{ entity: ControllerServiceEntity; group: string }>;
+}
+
+// How long to wait for a component to reach its target state
+const STATE_TIMEOUT_MS = 30000;
+
+export class FlowController {
+    private client: NiFiClient;
+
+    constructor(client: NiFiClient) {
+        this.client = client;
+    }
+
+    async control(action: FlowAction, groupRef: string): Promise<FlowControlSummary> {
+        const groupId = await resolveProcessGroupId(this.client, groupRef);
+        const failures = new Map<string, string>();
+
+        if (action === 'stop' || action === 'restart') {
+            await this.stop(await this.collect(groupId), failures);
+        }
+        if (action === 'start' || action === 'restart') {
+            await this.start(await this.collect(groupId), failures);
+        }
+
+        // Report what NiFi says now, not what was requested
+        const contents = await this.collect(groupId);
+        const components = runStatusOf(contents);
+        for (const component of components) {
+            const error = failures.get(component.id);
+            if (error) {
+                component.error = error;
+            }
+        }
+
+        const failed = components.filter(c => c.error);
+        return {
+            action,
+            processGroupId: groupId,
+            processGroupName: contents.name,
+            success: failed.length === 0,
+            components,
+            failed,
+        };
+    }
+
+    // Current run state of everything in the group and its descendants, without changing anything
+    async describe(groupRef: string): Promise<ComponentRunStatus[]> {
+        const groupId = await resolveProcessGroupId(this.client, groupRef);
+        return runStatusOf(await this.collect(groupId));
+    }
+
+    private async start(contents: GroupContents, failures: Map<string, string>): Promise<void> {
+        // Services first, each after the services it references
+        for (const { entity } of orderByDependency(contents.services)) {
+            const id = entity.component.id!;
+            if (entity.component.state === 'ENABLED') {
+                continue;
+            }
+            try {
+                const latest = await this.client.getControllerService(id);
+                if (latest.component.validationStatus === 'INVALID') {
+                    failures.set(id, `Invalid: ${(latest.component.validationErrors || []).join('; ')}`);
+                    continue;
+                }
+                await this.client.enableControllerService(id, latest.revision.version);
+                await this.client.waitForControllerServiceState(id, 'ENABLED', STATE_TIMEOUT_MS);
+            } catch (error: any) {
+                failures.set(id, describeError(error));
+            }
+        }
+
+        const started: string[] = [];
+        for (const { entity } of contents.processors) {
+            const id = entity.component.id!;
+            if (entity.component.state === 'RUNNING' || entity.component.state === 'DISABLED') {
+                continue;
+            }
+            try {
+                // Read again: processors referencing the services just enabled were invalid in the
+                // collected snapshot, and enabling them moved the revision on
+                const latest = await this.client.waitForProcessorValidation(id, STATE_TIMEOUT_MS);
+                if (latest.component.validationStatus === 'VALIDATING') {
+                    failures.set(id, 'Still validating; try starting it again');
+                    continue;
+                }
+                if (latest.component.validationStatus === 'INVALID') {
+                    failures.set(id, `Invalid: ${(latest.component.validationErrors || []).join('; ')}`);
+                    continue;
+                }
+                await this.client.startProcessor(id, latest.revision.version);
+                started.push(id);
+            } catch (error: any) {
+                failures.set(id, describeError(error));
+            }
+        }
+
+        for (const { entity, portType } of contents.ports) {
+            if (entity.component.state === 'RUNNING' || entity.component.state === 'DISABLED') {
+                continue;
+            }
+            try {
+                await this.client.updatePortRunStatus(portType, entity.component.id!, 'RUNNING', entity.revision.version);
+            } catch (error: any) {
+                failures.set(entity.component.id!, describeError(error));
+            }
+        }
+
+        for (const { entity } of contents.remoteGroups) {
+            if (entity.component.transmitting) {
+                continue;
+            }
+            try {
+                await this.client.updateRemoteProcessGroupRunStatus(entity.component.id!, 'TRANSMITTING', entity.revision.version);
+            } catch (error: any) {
+                failures.set(entity.component.id!, describeError(error));
+            }
+        }
+
+        await this.waitForProcessors(started, 'RUNNING', failures);
+    }
+
+    private async stop(contents: GroupContents, failures: Map<string, string>): Promise<void> {
+        // Sources stop together with everything else; queued data stays in the connections
+        const stopped: string[] = [];
+        for (const { entity } of contents.processors) {
+            if (entity.component.state !== 'RUNNING') {
+                continue;
+            }
+            try {
+                await this.client.stopProcessor(entity.component.id!, entity.revision.version);
+                stopped.push(entity.component.id!);
+            } catch (error: any) {
+                failures.set(entity.component.id!, describeError(error));
+            }
+        }
+
+        for (const { entity, portType } of contents.ports) {
+            if (entity.component.state !== 'RUNNING') {
+                continue;
+            }
+            try {
+                await this.client.updatePortRunStatus(portType, entity.component.id!, 'STOPPED', entity.revision.version);
+            } catch (error: any) {
+                failures.set(entity.component.id!, describeError(error));
+            }
+        }
+
+        for (const { entity } of contents.remoteGroups) {
+            if (!entity.component.transmitting) {
+                continue;
+            }
+            try {
+                await this.client.updateRemoteProcessGroupRunStatus(entity.component.id!, 'STOPPED', entity.revision.version);
+            } catch (error: any) {
+                failures.set(entity.component.id!, describeError(error));
+            }
+        }
+
+        await this.waitForProcessors(stopped, 'STOPPED', failures);
+
+        // Services can only be disabled once nothing running references them; dependants go first
+        for (const { entity } of orderByDependency(contents.services).reverse()) {
+            const id = entity.component.id!;
+            if (entity.component.state !== 'ENABLED') {
+                continue;
+            }
+            try {
+                const latest = await this.client.getControllerService(id);
+                await this.client.disableControllerService(id, latest.revision.version);
+                await this.client.waitForControllerServiceState(id, 'DISABLED', STATE_TIMEOUT_MS);
+            } catch (error: any) {
+                failures.set(id, describeError(error));
+            }
+        }
+    }
+
+    private async waitForProcessors(
+        ids: string[],
+        state: 'RUNNING' | 'STOPPED',
+        failures: Map<string, string>
+    ): Promise<void> {
+        for (const id of ids) {
+            try {
+                await this.client.waitForProcessorState(id, state, STATE_TIMEOUT_MS);
+            } catch (error: any) {
+                failures.set(id, describeError(error));
+            }
+        }
+    }
+
+    private async collect(groupId: string): Promise<GroupContents> {
+        const group = await this.client.getProcessGroup(groupId);
+        const contents: GroupContents = {
+            name: group.component.name,
+            processors: [],
+            ports: [],
+            remoteGroups: [],
+            services: [],
+        };
+
+        const visit = async (id: string, path: string): Promise<void> => {
+            const flow = (await this.client.getProcessGroupFlow(id)).processGroupFlow.flow;
+            contents.processors.push(...(flow.processors || []).map(entity => ({ entity, group: path })));
+            contents.ports.push(...(flow.inputPorts || []).map(entity => ({ entity, portType: 'INPUT_PORT' as const, group: path })));
+            contents.ports.push(...(flow.outputPorts || []).map(entity => ({ entity, portType: 'OUTPUT_PORT' as const, group: path })));
+            contents.remoteGroups.push(...(flow.remoteProcessGroups || []).map(entity => ({ entity, group: path })));
+            const services = await this.client.getControllerServices(id);
+            contents.services.push(...services.map(entity => ({ entity, group: path })));
+
+            for (const child of flow.processGroups || []) {
+                await visit(child.component.id!, path ? `${path}/${child.component.name}` : child.component.name);
+            }
+        };
+
+        await visit(groupId, '');
+        return contents;
+    }
+}
+
+function runStatusOf(contents: GroupContents): ComponentRunStatus[] {
+    return [
+        ...contents.services.map(({ entity, group }) => ({
+            kind: 'controller service' as const,
+            id: entity.component.id!,
+            name: entity.component.name,
+            group,
+            state: entity.component.state || 'UNKNOWN',
+        })),
+        ...contents.processors.map(({ entity, group }) => ({
+            kind: 'processor' as const,
+            id: entity.component.id!,
+            name: entity.component.name,
+            group,
+            state: entity.component.state || 'UNKNOWN',
+        })),
+        ...contents.ports.map(({ entity, portType, group }) => ({
+            kind: portType === 'INPUT_PORT' ? 'input port' as const : 'output port' as const,
+            id: entity.component.id!,
+            name: entity.component.name,
+            group,
+            state: entity.component.state || 'UNKNOWN',
+        })),
+        ...contents.remoteGroups.map(({ entity, group }) => ({
+            kind: 'remote process group' as const,
+            id: entity.component.id!,
+            name: entity.component.name || entity.component.targetUris,
+            group,
+            state: entity.component.transmitting ? 'TRANSMITTING' : 'STOPPED',
+        })),
+    ];
+}
+
+// Topological order: a service comes after every service whose id appears in its properties
+export function orderByDependency<T extends { entity: ControllerServiceEntity }>(services: T[]): T[] {
+    const byId = new Map(services.map(s => [s.entity.component.id!, s]));
+    const ordered: T[] = [];
+    // Marked on entry, so a reference cycle ends the walk instead of looping; NiFi reports it on enable
+    const seen = new Set<string>();
+
+    const visit = (service: T) => {
+        const id = service.entity.component.id!;
+        if (seen.has(id)) {
+            return;
+        }
+        seen.add(id);
+        for (const value of Object.values(service.entity.component.properties || {})) {
+            const dependency = value ? byId.get(value) : undefined;
+            if (dependency) {
+                visit(dependency);
+            }
+        }
+        ordered.push(service);
+    };
+
+    services.forEach(visit);
+    return ordered;
+}
@@ -0,0 +1,75 @@
+import { FlowDefinition, FlowComponentKind } from '../openai/service.js';
+import { ConnectableDTO } from './types.js';
+
+// Helpers for reading the components and connection endpoints of a FlowDefinition
+
+export type FlowConnection = FlowDefinition['connections'][number];
+
+export interface ConnectionEnd {
+    kind: FlowComponentKind;
+    index: number;
+    // Port name on the remote instance, for remote_input_port and remote_output_port
+    remotePort?: string;
+}
+
+export const connectableTypes: Record<FlowComponentKind, ConnectableDTO['type']> = {
+    processor: 'PROCESSOR',
+    input_port: 'INPUT_PORT',
+    output_port: 'OUTPUT_PORT',
+    funnel: 'FUNNEL',
+    remote_input_port: 'REMOTE_INPUT_PORT',
+    remote_output_port: 'REMOTE_OUTPUT_PORT',
+};
+
+export function sourceOf(connDef: FlowConnection): ConnectionEnd {
+    return { kind: connDef.from_type || 'processor', index: connDef.from_index, remotePort: connDef.from_remote_port };
+}
+
+export function destinationOf(connDef: FlowConnection): ConnectionEnd {
+    return { kind: connDef.to_type || 'processor', index: connDef.to_index, remotePort: connDef.to_remote_port };
+}
+
+export function isRemote(kind: FlowComponentKind): boolean {
+    return kind === 'remote_input_port' || kind === 'remote_output_port';
+}
+
+// How many components of a kind the definition declares; remote ports live in remote process groups
+export function countOf(definition: FlowDefinition, kind: FlowComponentKind): number {
+    switch (kind) {
+        case 'processor':
+            return definition.processors.length;
+        case 'input_port':
+            return definition.input_ports?.length || 0;
+        case 'output_port':
+            return definition.output_ports?.length || 0;
+        case 'funnel':
+            return definition.funnels?.length || 0;
+        case 'remote_input_port':
+        case 'remote_output_port':
+            return definition.remote_process_groups?.length || 0;
+    }
+}
+
+// Display name of a connection end, e.g. "Publish to MQTT" or "in:Upstream Records"
+export function describeEnd(definition: FlowDefinition, end: ConnectionEnd): string {
+    switch (end.kind) {
+        case 'processor':
+            return definition.processors[end.index]?.name ?? `processor ${end.index}`;
+        case 'input_port':
+            return `in:${definition.input_ports?.[end.index]?.name ?? end.index}`;
+        case 'output_port':
+            return `out:${definition.output_ports?.[end.index]?.name ?? end.index}`;
+        case 'funnel':
+            return definition.funnels?.[end.index]?.name || `funnel ${end.index}`;
+        case 'remote_input_port':
+        case 'remote_output_port': {
+            const remoteGroup = definition.remote_process_groups?.[end.index];
+            return `${remoteGroup?.name || remoteGroup?.target_uris || `remote group ${end.index}`}:${end.remotePort ?? '?'}`;
+        }
+    }
+}
+
+// Connections leaving the processor at the given index
+export function connectionsFromProcessor(definition: FlowDefinition, index: number): FlowConnection[] {
+    return definition.connections.filter(c => (c.from_type || 'processor') === 'processor' && c.from_index === index);
+}
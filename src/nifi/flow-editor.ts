@@ -0,0 +1,634 @@
+import { NiFiClient } from './client.js';
+import { resolveProcessGroupId } from './process-groups.js';
+import { ProcessorEntity, ConnectionEntity, ConnectableDTO, ConnectionSettings } from './types.js';
+import { Box, existingBoxes, findFreeSpot, componentSizes } from './layout.js';
+import { processorCatalog, getSchedulingSettings, toSchedulingSettings, isSensitiveProperty } from '../processors/catalog.js';
+import { MASKED_VALUE } from './parameters.js';
+import { ProcessorScheduling } from '../openai/service.js';
+import { shortType, describeError } from './describe.js';
+
+// Edits the model can request against a deployed process group
+
+export interface UpdateProcessorEdit {
+    kind: 'update_processor';
+    process_group: string;
+    processor: string;
+    name?: string;
+    properties?: Record<string, string | null>;
+    auto_terminate?: string[];
+    scheduling?: ProcessorScheduling;
+}
+
+export interface AddProcessorEdit {
+    kind: 'add_processor';
+    process_group: string;
+    name: string;
+    type: string;
+    properties?: Record<string, string>;
+    auto_terminate?: string[];
+    scheduling?: ProcessorScheduling;
+    upstream?: { processor: string; relationships: string[] };
+    downstream?: { processor: string; relationships: string[] };
+}
+
+export interface RemoveProcessorEdit {
+    kind: 'remove_processor';
+    process_group: string;
+    processor: string;
+    bridge?: boolean;
+}
+
+export interface RewireConnectionEdit {
+    kind: 'rewire_connection';
+    process_group: string;
+    from: string;
+    to: string;
+    new_to?: string;
+    relationships?: string[];
+}
+
+export type FlowEdit = UpdateProcessorEdit | AddProcessorEdit | RemoveProcessorEdit | RewireConnectionEdit;
+
+export interface DiffLine {
+    change: '+' | '-' | ' ';
+    text: string;
+}
+
+interface EditOperation {
+    description: string;
+    run: () => Promise<void>;
+    // Reverses run() when a later operation fails; absent when it cannot be reversed. Returns
+    // whatever it could only partly put back
+    undo?: () => Promise<string[] | void>;
+}
+
+export interface EditPlan {
+    edit: FlowEdit;
+    groupId: string;
+    diff: DiffLine[];
+    operations: EditOperation[];
+}
+
+export interface EditResult {
+    success: boolean;
+    applied: string[];
+    errors: string[];
+    // Operations undone after a failure, and those that could not be
+    rolledBack: string[];
+    rollbackErrors: string[];
+}
+
+// Snapshot of a deployed group used while planning an edit
+interface GroupSnapshot {
+    processors: ProcessorEntity[];
+    connections: ConnectionEntity[];
+    boxes: Box[];
+    // FlowFiles queued per connection id
+    queued: Map<string, number>;
+}
+
+export class FlowEditor {
+    private client: NiFiClient;
+
+    constructor(client: NiFiClient) {
+        this.client = client;
+    }
+
+    async planEdit(edit: FlowEdit): Promise<EditPlan> {
+        const groupId = await resolveProcessGroupId(this.client, edit.process_group);
+        const flow = await this.client.getProcessGroupFlow(groupId);
+        const status = await this.client.getProcessGroupStatus(groupId, false);
+        const snapshot: GroupSnapshot = {
+            processors: flow.processGroupFlow.flow.processors || [],
+            connections: flow.processGroupFlow.flow.connections || [],
+            boxes: existingBoxes(flow),
+            queued: new Map((status.processGroupStatus.aggregateSnapshot.connectionStatusSnapshots || [])
+                .map(({ connectionStatusSnapshot: c }) => [c.id, c.flowFilesQueued])),
+        };
+        const plan: EditPlan = { edit, groupId, diff: [], operations: [] };
+
+        switch (edit.kind) {
+            case 'update_processor':
+                this.planUpdateProcessor(edit, snapshot, plan);
+                break;
+            case 'add_processor':
+                this.planAddProcessor(edit, snapshot, plan);
+                break;
+            case 'remove_processor':
+                this.planRemoveProcessor(edit, snapshot, plan);
+                break;
+            case 'rewire_connection':
+                this.planRewireConnection(edit, snapshot, plan);
+                break;
+        }
+
+        return plan;
+    }
+
+    // All or nothing: when an operation fails, the ones already applied are undone, newest first
+    async applyEdit(plan: EditPlan): Promise<EditResult> {
+        const result: EditResult = { success: false, applied: [], errors: [], rolledBack: [], rollbackErrors: [] };
+        const applied: EditOperation[] = [];
+
+        for (const operation of plan.operations) {
+            try {
+                await operation.run();
+                applied.push(operation);
+                result.applied.push(operation.description);
+            } catch (error: any) {
+                result.errors.push(`${operation.description}: ${describeError(error)}`);
+                await this.rollback(applied, result);
+                break;
+            }
+        }
+
+        result.success = result.errors.length === 0;
+        return result;
+    }
+
+    private async rollback(applied: EditOperation[], result: EditResult): Promise<void> {
+        for (const operation of [...applied].reverse()) {
+            if (!operation.undo) {
+                result.rollbackErrors.push(`${operation.description}: cannot be undone`);
+                continue;
+            }
+            try {
+                const leftOver = await operation.undo();
+                result.rolledBack.push(operation.description);
+                result.rollbackErrors.push(...(leftOver || []).map(item => `${operation.description}: ${item}`));
+            } catch (error: any) {
+                result.rollbackErrors.push(`${operation.description}: ${describeError(error)}`);
+            }
+        }
+    }
+
+    private planUpdateProcessor(edit: UpdateProcessorEdit, snapshot: GroupSnapshot, plan: EditPlan): void {
+        const processor = findProcessor(snapshot, edit.processor);
+        const current = processor.component;
+        const currentProps = current.config?.properties || {};
+
+        plan.diff.push({ change: ' ', text: `processor ${current.name} (${shortType(current.type)})` });
+        if (edit.name && edit.name !== current.name) {
+            plan.diff.push({ change: '-', text: `  name: ${current.name}` });
+            plan.diff.push({ change: '+', text: `  name: ${edit.name}` });
+        }
+
+        const info = processorCatalog[shortType(current.type)];
+        const changedProps: Record<string, string | null> = {};
+        for (const [key, value] of Object.entries(edit.properties || {})) {
+            const before = currentProps[key] ?? null;
+            if (before === value) {
+                continue;
+            }
+            changedProps[key] = value;
+            const sensitive = isSensitiveProperty(info, key);
+            if (before !== null) {
+                plan.diff.push({ change: '-', text: `  ${key}: ${sensitive ? MASKED_VALUE : before}` });
+            }
+            if (value !== null) {
+                plan.diff.push({ change: '+', text: `  ${key}: ${sensitive ? MASKED_VALUE : value}` });
+            }
+        }
+
+        const currentTerminated = current.config?.autoTerminatedRelationships || [];
+        const terminateChanged = edit.auto_terminate
+            && !sameMembers(edit.auto_terminate, currentTerminated);
+        if (terminateChanged) {
+            plan.diff.push({ change: '-', text: `  auto-terminate: ${currentTerminated.join(', ') || '(none)'}` });
+            plan.diff.push({ change: '+', text: `  auto-terminate: ${edit.auto_terminate!.join(', ') || '(none)'}` });
+        }
+
+        const changedScheduling: Record<string, unknown> = {};
+        const currentConfig = (current.config || {}) as unknown as Record<string, unknown>;
+        for (const [key, value] of Object.entries(toSchedulingSettings(edit.scheduling || {}))) {
+            if (currentConfig[key] === value) {
+                continue;
+            }
+            changedScheduling[key] = value;
+            plan.diff.push({ change: '-', text: `  ${key}: ${currentConfig[key] ?? '(unset)'}` });
+            plan.diff.push({ change: '+', text: `  ${key}: ${value}` });
+        }
+
+        const nameChanged = !!edit.name && edit.name !== current.name;
+        if (!nameChanged && Object.keys(changedProps).length === 0 && !terminateChanged
+            && Object.keys(changedScheduling).length === 0) {
+            plan.diff.push({ change: ' ', text: '  (no changes)' });
+            return;
+        }
+
+        // NiFi only returns a mask for sensitive values, so those cannot be put back on undo
+        const previousProps: Record<string, string | null> = {};
+        const unrestorable: string[] = [];
+        for (const key of Object.keys(changedProps)) {
+            if (isSensitiveProperty(info, key)) {
+                unrestorable.push(`${key}: sensitive value cannot be restored`);
+            } else {
+                previousProps[key] = currentProps[key] ?? null;
+            }
+        }
+        const previousScheduling = Object.fromEntries(Object.keys(changedScheduling).map(key => [key, currentConfig[key]]));
+
+        plan.operations.push(...this.withProcessorsStopped([processor], [{
+            description: `Update processor ${current.name}`,
+            run: async () => {
+                const latest = await this.client.getProcessor(processor.component.id!);
+                await this.client.updateProcessor(
+                    processor.component.id!,
+                    {
+                        ...(nameChanged ? { name: edit.name } : {}),
+                        config: {
+                            properties: changedProps,
+                            ...(terminateChanged ? { autoTerminatedRelationships: edit.auto_terminate } : {}),
+                            ...changedScheduling,
+                        },
+                    },
+                    latest.revision.version
+                );
+            },
+            undo: async () => {
+                const latest = await this.client.getProcessor(processor.component.id!);
+                await this.client.updateProcessor(
+                    processor.component.id!,
+                    {
+                        ...(nameChanged ? { name: current.name } : {}),
+                        config: {
+                            properties: previousProps,
+                            ...(terminateChanged ? { autoTerminatedRelationships: currentTerminated } : {}),
+                            ...previousScheduling,
+                        },
+                    },
+                    latest.revision.version
+                );
+                return unrestorable;
+            },
+        }]));
+    }
+
+    private planAddProcessor(edit: AddProcessorEdit, snapshot: GroupSnapshot, plan: EditPlan): void {
+        const procInfo = processorCatalog[edit.type];
+        const processorType = procInfo?.type || edit.type;
+        const properties: Record<string, string | null> = {
+            ...(procInfo?.defaultProperties || {}),
+            ...(edit.properties || {}),
+        };
+
+        const upstream = edit.upstream ? findProcessor(snapshot, edit.upstream.processor) : undefined;
+        const downstream = edit.downstream ? findProcessor(snapshot, edit.downstream.processor) : undefined;
+
+        // When inserting between two connected processors, the existing connection is redirected
+        const spliced = upstream && downstream
+            ? snapshot.connections.find(c =>
+                c.component.source.id === upstream.component.id
+                && c.component.destination.id === downstream.component.id)
+            : undefined;
+        if (spliced) {
+            checkQueueEmpty(snapshot, spliced);
+        }
+
+        plan.diff.push({ change: '+', text: `processor ${edit.name} (${shortType(processorType)})` });
+        for (const [key, value] of Object.entries(properties)) {
+            plan.diff.push({ change: '+', text: `  ${key}: ${isSensitiveProperty(procInfo, key) ? MASKED_VALUE : value}` });
+        }
+        if (edit.auto_terminate && edit.auto_terminate.length > 0) {
+            plan.diff.push({ change: '+', text: `  auto-terminate: ${edit.auto_terminate.join(', ')}` });
+        }
+        const scheduling = getSchedulingSettings(edit.type, edit.scheduling);
+        for (const [key, value] of Object.entries(scheduling)) {
+            plan.diff.push({ change: '+', text: `  ${key}: ${value}` });
+        }
+        if (spliced) {
+            plan.diff.push({ change: '-', text: describeConnection(spliced) });
+        }
+        if (upstream) {
+            const relationships = spliced ? spliced.component.selectedRelationships : edit.upstream!.relationships;
+            plan.diff.push({
+                change: '+',
+                text: `connection ${upstream.component.name} → ${edit.name} [${relationships.join(', ')}]`,
+            });
+        }
+        if (downstream) {
+            plan.diff.push({
+                change: '+',
+                text: `connection ${edit.name} → ${downstream.component.name} [${edit.downstream!.relationships.join(', ')}]`,
+            });
+        }
+
+        // Beside the upstream processor when there is one, otherwise anywhere free
+        const anchor = upstream?.component.position || downstream?.component.position;
+        const position = findFreeSpot(snapshot.boxes, componentSizes.processor, anchor);
+
+        let newProcessorId = '';
+        const operations: EditOperation[] = [];
+        // Created and configured in two steps, so a failed configuration still deletes the processor
+        operations.push({
+            description: `Create processor ${edit.name}`,
+            run: async () => {
+                const created = await this.client.createProcessor(plan.groupId, edit.name, processorType, position);
+                newProcessorId = created.component.id!;
+            },
+            undo: async () => {
+                const latest = await this.client.getProcessor(newProcessorId);
+                await this.client.deleteProcessor(newProcessorId, latest.revision.version);
+            },
+        });
+        operations.push({
+            description: `Configure processor ${edit.name}`,
+            run: async () => {
+                const latest = await this.client.getProcessor(newProcessorId);
+                await this.client.updateProcessor(
+                    newProcessorId,
+                    {
+                        config: {
+                            properties,
+                            ...(edit.auto_terminate ? { autoTerminatedRelationships: edit.auto_terminate } : {}),
+                            ...scheduling,
+                        },
+                    },
+                    latest.revision.version
+                );
+            },
+            // Deleting the processor undoes this too
+            undo: async () => undefined,
+        });
+
+        if (upstream && spliced) {
+            operations.push({
+                description: `Redirect ${upstream.component.name} → ${edit.name}`,
+                run: async () => {
+                    const latest = await this.client.getConnection(spliced.component.id!);
+                    await this.client.updateConnection(
+                        spliced.component.id!,
+                        { destination: { id: newProcessorId, groupId: plan.groupId, type: 'PROCESSOR' } },
+                        latest.revision.version
+                    );
+                },
+                undo: async () => {
+                    const latest = await this.client.getConnection(spliced.component.id!);
+                    await this.client.updateConnection(spliced.component.id!, { destination: spliced.component.destination }, latest.revision.version);
+                },
+            });
+        } else if (upstream) {
+            operations.push(this.connectOperation(
+                `Connect ${upstream.component.name} → ${edit.name}`,
+                plan.groupId,
+                () => processorEndpoint(upstream.component.id!, plan.groupId),
+                () => processorEndpoint(newProcessorId, plan.groupId),
+                edit.upstream!.relationships
+            ));
+        }
+
+        if (downstream) {
+            operations.push(this.connectOperation(
+                `Connect ${edit.name} → ${downstream.component.name}`,
+                plan.groupId,
+                () => processorEndpoint(newProcessorId, plan.groupId),
+                () => processorEndpoint(downstream.component.id!, plan.groupId),
+                edit.downstream!.relationships
+            ));
+        }
+
+        // Redirecting a connection needs both of its ends stopped
+        plan.operations.push(...(spliced ? this.withProcessorsStopped([upstream!, downstream!], operations) : operations));
+    }
+
+    private planRemoveProcessor(edit: RemoveProcessorEdit, snapshot: GroupSnapshot, plan: EditPlan): void {
+        const processor = findProcessor(snapshot, edit.processor);
+        const processorId = processor.component.id!;
+        // A self-loop is both incoming and outgoing; it is deleted once and never bridged
+        const attached = snapshot.connections.filter(c =>
+            c.component.source.id === processorId || c.component.destination.id === processorId);
+        const incoming = attached.filter(c => c.component.source.id !== processorId);
+        const outgoing = attached.filter(c => c.component.destination.id !== processorId);
+
+        plan.diff.push({ change: '-', text: `processor ${processor.component.name} (${shortType(processor.component.type)})` });
+        for (const connection of attached) {
+            plan.diff.push({ change: '-', text: describeConnection(connection) });
+        }
+
+        // Optionally reconnect each upstream processor to each downstream one
+        const bridges: Array<{ source: ConnectionEntity; destination: ConnectionEntity }> = [];
+        if (edit.bridge !== false) {
+            for (const source of incoming) {
+                for (const destination of outgoing) {
+                    if (source.component.source.id === destination.component.destination.id) {
+                        continue;
+                    }
+                    bridges.push({ source, destination });
+                    plan.diff.push({
+                        change: '+',
+                        text: `connection ${source.component.source.name} → ${destination.component.destination.name} [${source.component.selectedRelationships.join(', ')}]`,
+                    });
+                }
+            }
+        }
+
+        // Deleting a connection needs an empty queue and both of its ends stopped
+        for (const connection of attached) {
+            checkQueueEmpty(snapshot, connection);
+        }
+        const neighbours = [...incoming.map(c => c.component.source.id), ...outgoing.map(c => c.component.destination.id)]
+            .map(id => snapshot.processors.find(p => p.component.id === id))
+            .filter((p): p is ProcessorEntity => !!p && p.component.id !== processorId);
+
+        // Bridges first and the processor last, so everything before the delete can be undone
+        const operations: EditOperation[] = bridges.map(bridge => this.connectOperation(
+            `Connect ${bridge.source.component.source.name} → ${bridge.destination.component.destination.name}`,
+            plan.groupId,
+            () => bridge.source.component.source,
+            () => bridge.destination.component.destination,
+            bridge.source.component.selectedRelationships
+        ));
+
+        for (const connection of attached) {
+            operations.push({
+                description: `Delete ${describeConnection(connection)}`,
+                run: async () => {
+                    const latest = await this.client.getConnection(connection.component.id!);
+                    await this.client.deleteConnection(connection.component.id!, latest.revision.version);
+                },
+                undo: async () => {
+                    const c = connection.component;
+                    await this.client.createConnection(plan.groupId, c.source, c.destination, c.selectedRelationships, settingsOf(c));
+                },
+            });
+        }
+
+        operations.push({
+            description: `Delete processor ${processor.component.name}`,
+            run: async () => {
+                const latest = await this.client.getProcessor(processorId);
+                await this.client.deleteProcessor(processorId, latest.revision.version);
+            },
+        });
+
+        plan.operations.push(...this.withProcessorsStopped([processor, ...neighbours], operations, processor));
+    }
+
+    private planRewireConnection(edit: RewireConnectionEdit, snapshot: GroupSnapshot, plan: EditPlan): void {
+        const source = findProcessor(snapshot, edit.from);
+        const destination = findProcessor(snapshot, edit.to);
+        const connection = snapshot.connections.find(c =>
+            c.component.source.id === source.component.id
+            && c.component.destination.id === destination.component.id);
+        if (!connection) {
+            throw new Error(`No connection from ${source.component.name} to ${destination.component.name}`);
+        }
+
+        const newDestination = edit.new_to ? findProcessor(snapshot, edit.new_to) : destination;
+        const relationships = edit.relationships || connection.component.selectedRelationships;
+        if (newDestination !== destination) {
+            checkQueueEmpty(snapshot, connection);
+        }
+
+        plan.diff.push({ change: '-', text: describeConnection(connection) });
+        plan.diff.push({
+            change: '+',
+            text: `connection ${source.component.name} → ${newDestination.component.name} [${relationships.join(', ')}]`,
+        });
+
+        plan.operations.push(...this.withProcessorsStopped([source, destination, newDestination], [{
+            description: `Rewire ${source.component.name} → ${newDestination.component.name}`,
+            run: async () => {
+                const latest = await this.client.getConnection(connection.component.id!);
+                await this.client.updateConnection(
+                    connection.component.id!,
+                    {
+                        destination: { id: newDestination.component.id!, groupId: plan.groupId, type: 'PROCESSOR' },
+                        selectedRelationships: relationships,
+                    },
+                    latest.revision.version
+                );
+            },
+            undo: async () => {
+                const latest = await this.client.getConnection(connection.component.id!);
+                await this.client.updateConnection(
+                    connection.component.id!,
+                    {
+                        destination: connection.component.destination,
+                        selectedRelationships: connection.component.selectedRelationships,
+                    },
+                    latest.revision.version
+                );
+            },
+        }]));
+    }
+
+    // NiFi rejects changes to running processors and their connections, so stop the running ones
+    // first and restart them afterwards, except one the operations delete
+    private withProcessorsStopped(
+        processors: ProcessorEntity[],
+        operations: EditOperation[],
+        removed?: ProcessorEntity
+    ): EditOperation[] {
+        const running = processors.filter((p, i) => isRunning(p) && processors.indexOf(p) === i);
+        const setState = async (processorId: string, state: 'RUNNING' | 'STOPPED') => {
+            const latest = await this.client.getProcessor(processorId);
+            if (state === 'STOPPED') {
+                await this.client.stopProcessor(processorId, latest.revision.version);
+                // Threads still running would keep the connections locked
+                await this.client.waitForProcessorState(processorId, 'STOPPED');
+            } else {
+                await this.client.startProcessor(processorId, latest.revision.version);
+            }
+        };
+        const operation = (processor: ProcessorEntity, verb: string, state: 'RUNNING' | 'STOPPED'): EditOperation => ({
+            description: `${verb} processor ${processor.component.name}`,
+            run: () => setState(processor.component.id!, state),
+            undo: () => setState(processor.component.id!, state === 'RUNNING' ? 'STOPPED' : 'RUNNING'),
+        });
+
+        return [
+            ...running.map(p => operation(p, 'Stop', 'STOPPED')),
+            ...operations,
+            ...running.filter(p => p !== removed).map(p => operation(p, 'Restart', 'RUNNING')),
+        ];
+    }
+
+    // Create a connection whose endpoints may only be known once earlier operations have run
+    private connectOperation(
+        description: string,
+        groupId: string,
+        source: () => ConnectableDTO,
+        destination: () => ConnectableDTO,
+        relationships: string[]
+    ): EditOperation {
+        let connectionId = '';
+        return {
+            description,
+            run: async () => {
+                const created = await this.client.createConnection(groupId, source(), destination(), relationships);
+                connectionId = created.component.id!;
+            },
+            undo: async () => {
+                const latest = await this.client.getConnection(connectionId);
+                await this.client.deleteConnection(connectionId, latest.revision.version);
+            },
+        };
+    }
+}
+
+// Find a processor by ID, display name or type name (e.g. "ExecuteSQL")
+function findProcessor(snapshot: GroupSnapshot, ref: string): ProcessorEntity {
+    const needle = ref.trim().toLowerCase();
+    const byId = snapshot.processors.find(p => p.component.id === ref.trim());
+    if (byId) {
+        return byId;
+    }
+
+    const byName = snapshot.processors.filter(p => p.component.name.toLowerCase() === needle);
+    if (byName.length === 1) {
+        return byName[0];
+    }
+
+    const candidates = byName.length > 0
+        ? byName
+        : snapshot.processors.filter(p =>
+            shortType(p.component.type).toLowerCase() === needle
+            || p.component.name.toLowerCase().includes(needle));
+    if (candidates.length === 1) {
+        return candidates[0];
+    }
+    if (candidates.length > 1) {
+        throw new Error(`Processor "${ref}" is ambiguous: ${candidates.map(p => p.component.name).join(', ')}`);
+    }
+    throw new Error(`Processor "${ref}" not found. Available: ${snapshot.processors.map(p => p.component.name).join(', ')}`);
+}
+
+// NiFi refuses to delete or redirect a connection that still holds data; dropping it is left to the user
+function checkQueueEmpty(snapshot: GroupSnapshot, connection: ConnectionEntity): void {
+    const queued = snapshot.queued.get(connection.component.id!) || 0;
+    if (queued > 0) {
+        throw new Error(`The ${describeConnection(connection)} has ${queued} FlowFile(s) queued. `
+            + 'Let them drain or empty the queue in the NiFi UI, then try the edit again');
+    }
+}
+
+function settingsOf(connection: ConnectionEntity['component']): ConnectionSettings {
+    return {
+        backPressureObjectThreshold: connection.backPressureObjectThreshold,
+        backPressureDataSizeThreshold: connection.backPressureDataSizeThreshold,
+        flowFileExpiration: connection.flowFileExpiration,
+        prioritizers: connection.prioritizers,
+        loadBalanceStrategy: connection.loadBalanceStrategy,
+        loadBalancePartitionAttribute: connection.loadBalancePartitionAttribute,
+        loadBalanceCompression: connection.loadBalanceCompression,
+    };
+}
+
+function processorEndpoint(id: string, groupId: string): ConnectableDTO {
+    return { id, groupId, type: 'PROCESSOR' };
+}
+
+function describeConnection(connection: ConnectionEntity): string {
+    const c = connection.component;
+    return `connection ${c.source.name || c.source.id} → ${c.destination.name || c.destination.id} [${c.selectedRelationships.join(', ')}]`;
+}
+
+function isRunning(processor: ProcessorEntity): boolean {
+    return (processor.status?.runStatus || processor.component.state) === 'Running'
+        || processor.component.state === 'RUNNING';
+}
+
+function sameMembers(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every(item => b.includes(item));
+}
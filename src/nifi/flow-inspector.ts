@@ -0,0 +1,143 @@
+import { NiFiClient } from './client.js';
+import { listProcessGroups, resolveProcessGroupId } from './process-groups.js';
+import { FLOW_GROUP_COMMENT } from './flow-builder.js';
+import { ProcessorEntity } from './types.js';
+import { shortType } from './describe.js';
+
+// Read-only views of the live canvas, trimmed to what the model needs to answer questions
+
+export interface ProcessGroupListing {
+    id: string;
+    name: string;
+    path: string;
+    createdByAgent: boolean;
+    running?: number;
+    stopped?: number;
+    invalid?: number;
+    disabled?: number;
+}
+
+export interface ProcessGroupDescription {
+    id: string;
+    name: string;
+    processors: Array<{
+        id: string;
+        name: string;
+        type: string;
+        state?: string;
+        validationStatus?: string;
+        validationErrors?: string[];
+        properties: Record<string, string | null>;
+    }>;
+    connections: Array<{
+        id: string;
+        from: string;
+        to: string;
+        relationships: string[];
+    }>;
+    controllerServices: Array<{
+        id: string;
+        name: string;
+        type: string;
+        state?: string;
+        properties: Record<string, string | null>;
+    }>;
+    childGroups: Array<{ id: string; name: string }>;
+}
+
+export class FlowInspector {
+    private client: NiFiClient;
+
+    constructor(client: NiFiClient) {
+        this.client = client;
+    }
+
+    // Counts come from the parent's flow, already read while walking the tree
+    async listProcessGroups(): Promise<ProcessGroupListing[]> {
+        const groups = await listProcessGroups(this.client);
+        return groups.map(group => ({
+            id: group.id,
+            name: group.name,
+            path: group.path,
+            createdByAgent: group.comments === FLOW_GROUP_COMMENT,
+            running: group.running,
+            stopped: group.stopped,
+            invalid: group.invalid,
+            disabled: group.disabled,
+        }));
+    }
+
+    async describeProcessGroup(groupRef: string): Promise<ProcessGroupDescription> {
+        const groupId = await resolveProcessGroupId(this.client, groupRef);
+        const [group, flow] = await Promise.all([
+            this.client.getProcessGroup(groupId),
+            this.client.getProcessGroupFlow(groupId),
+        ]);
+        const contents = flow.processGroupFlow.flow;
+        const services = await this.client.getControllerServices(groupId);
+
+        return {
+            id: groupId,
+            name: group.component.name,
+            processors: (contents.processors || []).map(p => ({
+                id: p.component.id!,
+                name: p.component.name,
+                type: shortType(p.component.type),
+                state: p.component.state,
+                validationStatus: p.component.validationStatus,
+                validationErrors: p.component.validationErrors,
+                properties: nonEmpty(p.component.config?.properties),
+            })),
+            connections: (contents.connections || []).map(c => ({
+                id: c.component.id!,
+                from: c.component.source.name || c.component.source.id,
+                to: c.component.destination.name || c.component.destination.id,
+                relationships: c.component.selectedRelationships,
+            })),
+            controllerServices: services.map(s => ({
+                id: s.component.id!,
+                name: s.component.name,
+                type: shortType(s.component.type),
+                state: s.component.state,
+                properties: nonEmpty(s.component.properties),
+            })),
+            childGroups: (contents.processGroups || []).map(g => ({
+                id: g.component.id!,
+                name: g.component.name,
+            })),
+        };
+    }
+
+    async getProcessorConfig(processorRef: string, groupRef?: string): Promise<ProcessorEntity['component']> {
+        const processorId = groupRef
+            ? await this.findProcessorId(groupRef, processorRef)
+            : processorRef;
+        const processor = await this.client.getProcessor(processorId);
+        return processor.component;
+    }
+
+    private async findProcessorId(groupRef: string, processorRef: string): Promise<string> {
+        const groupId = await resolveProcessGroupId(this.client, groupRef);
+        const flow = await this.client.getProcessGroupFlow(groupId);
+        const needle = processorRef.trim().toLowerCase();
+        const match = (flow.processGroupFlow.flow.processors || []).find(p =>
+            p.component.id === processorRef.trim()
+            || p.component.name.toLowerCase() === needle
+            || shortType(p.component.type).toLowerCase() === needle);
+        if (!match) {
+            throw new Error(`Processor "${processorRef}" not found in process group "${groupRef}"`);
+        }
+        return match.component.id!;
+    }
+}
+
+// Drop unset properties so the model only sees what is actually configured
+function nonEmpty(properties?: Record<string, string | null>): Record<string, string | null> {
+    const result: Record<string, string | null> = {};
+    for (const [key, value] of Object.entries(properties || {})) {
+        if (value !== null && value !== '') {
+            result[key] = value;
+        }
+    }
+    return result;
+}
@@ -0,0 +1,119 @@
+import { NiFiClient } from './client.js';
+import { FlowBuildResult } from './flow-builder.js';
+import { processorCatalog, controllerServiceCatalog } from '../processors/catalog.js';
+import { PropertyDescriptorInfo } from './types.js';
+import { shortType } from './describe.js';
+
+export interface InvalidComponent {
+    kind: 'processor' | 'controller service';
+    id: string;
+    name: string;
+    type: string;
+    properties: Record<string, string | null>;
+    validationErrors: string[];
+    // Catalog knowledge about the type's properties, to help the model propose valid values
+    knownProperties?: Record<string, Pick<PropertyDescriptorInfo, 'required' | 'allowableValues' | 'defaultValue'>>;
+}
+
+export interface PropertyPatch {
+    component_id: string;
+    properties: Record<string, string | null>;
+    reason: string;
+}
+
+// How long to wait for NiFi to finish validating a component
+const VALIDATION_TIMEOUT_MS = 10000;
+
+export class FlowRepairer {
+    private client: NiFiClient;
+
+    constructor(client: NiFiClient) {
+        this.client = client;
+    }
+
+    async findInvalidComponents(result: FlowBuildResult): Promise<InvalidComponent[]> {
+        const invalid: InvalidComponent[] = [];
+
+        for (const serviceId of result.controllerServiceIds) {
+            const service = await this.waitForValidation(() => this.client.getControllerService(serviceId));
+            if (service.component.validationStatus === 'INVALID') {
+                invalid.push({
+                    kind: 'controller service',
+                    id: serviceId,
+                    name: service.component.name,
+                    type: service.component.type,
+                    properties: service.component.properties || {},
+                    validationErrors: service.component.validationErrors || [],
+                    knownProperties: describeProperties(controllerServiceCatalog[shortType(service.component.type)]?.properties),
+                });
+            }
+        }
+
+        for (const processorId of result.processorIds) {
+            const processor = await this.waitForValidation(() => this.client.getProcessor(processorId));
+            if (processor.component.validationStatus === 'INVALID') {
+                invalid.push({
+                    kind: 'processor',
+                    id: processorId,
+                    name: processor.component.name,
+                    type: processor.component.type,
+                    properties: processor.component.config?.properties || {},
+                    validationErrors: processor.component.validationErrors || [],
+                    knownProperties: describeProperties(processorCatalog[shortType(processor.component.type)]?.properties),
+                });
+            }
+        }
+
+        return invalid;
+    }
+
+    async applyPatch(patch: PropertyPatch, component: InvalidComponent): Promise<void> {
+        if (component.kind === 'processor') {
+            const latest = await this.client.getProcessor(component.id);
+            await this.client.updateProcessorProperties(component.id, patch.properties, latest.revision.version);
+            return;
+        }
+
+        // Controller services can only be reconfigured while disabled
+        let service = await this.client.getControllerService(component.id);
+        if (service.component.state !== 'DISABLED') {
+            await this.client.disableControllerService(component.id, service.revision.version);
+            service = await this.client.waitForControllerServiceState(component.id, 'DISABLED');
+        }
+        await this.client.updateControllerServiceProperties(component.id, patch.properties, service.revision.version);
+
+        const updated = await this.waitForValidation(() => this.client.getControllerService(component.id));
+        if (updated.component.validationStatus === 'VALID') {
+            await this.client.enableControllerService(component.id, updated.revision.version);
+        }
+    }
+
+    private async waitForValidation<T extends { component: { validationStatus?: string } }>(
+        fetch: () => Promise<T>
+    ): Promise<T> {
+        const deadline = Date.now() + VALIDATION_TIMEOUT_MS;
+        let entity = await fetch();
+        while (entity.component.validationStatus === 'VALIDATING' && Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, 500));
+            entity = await fetch();
+        }
+        return entity;
+    }
+}
+
+function describeProperties(
+    properties?: Record<string, PropertyDescriptorInfo>
+): InvalidComponent['knownProperties'] {
+    if (!properties) {
+        return undefined;
+    }
+    const described: NonNullable<InvalidComponent['knownProperties']> = {};
+    for (const [name, info] of Object.entries(properties)) {
+        described[name] = {
+            required: info.required,
+            allowableValues: info.allowableValues,
+            defaultValue: info.defaultValue,
+        };
+    }
+    return described;
+}
@@ -0,0 +1,303 @@
+import { FlowDefinition, FlowComponentKind, ProcessorScheduling } from '../openai/service.js';
+import {
+    ConnectionEnd,
+    sourceOf,
+    destinationOf,
+    countOf,
+    isRemote,
+    connectionsFromProcessor,
+} from './flow-definition.js';
+import { processorCatalog, controllerServiceCatalog, prioritizerTypes } from '../processors/catalog.js';
+import { ProcessorTypeInfo, ControllerServiceTypeInfo } from './types.js';
+
+// Static checks of a FlowDefinition against the catalog, run before anything touches NiFi
+
+export interface ValidationIssue {
+    severity: 'error' | 'warning';
+    // Location in the definition, e.g. processors[1] or connections[0]
+    path: string;
+    message: string;
+}
+
+export interface FlowValidationReport {
+    valid: boolean;
+    errors: ValidationIssue[];
+    warnings: ValidationIssue[];
+}
+
+export function validateFlowDefinition(definition: FlowDefinition): FlowValidationReport {
+    const issues: ValidationIssue[] = [];
+    const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+    const warning = (path: string, message: string) => issues.push({ severity: 'warning', path, message });
+
+    const processors = definition.processors || [];
+    const connections = definition.connections || [];
+    const services = definition.controller_services || [];
+
+    if (processors.length === 0) {
+        error('processors', 'The flow has no processors');
+    }
+
+    // Properties filled in by controller service references, per processor index
+    const serviceBacked = new Map<number, Set<string>>();
+    services.forEach((serviceDef, s) => {
+        const path = `controller_services[${s}] "${serviceDef.name}"`;
+        const info = findControllerService(serviceDef.type);
+        if (!info) {
+            error(path, `Unknown controller service type "${serviceDef.type}"`);
+        } else {
+            for (const name of missingRequired(info, serviceDef.properties)) {
+                error(path, `Missing required property "${name}"`);
+            }
+        }
+
+        (serviceDef.referenced_by || []).forEach((ref, r) => {
+            const refPath = `${path}.referenced_by[${r}]`;
+            if (!isIndex(ref.processor_index, processors.length)) {
+                error(refPath, `processor_index ${ref.processor_index} is out of range (0-${processors.length - 1})`);
+                return;
+            }
+            const target = findProcessor(processors[ref.processor_index].type);
+            if (target?.properties && !target.properties[ref.property_name]) {
+                error(refPath, `${processors[ref.processor_index].type} has no property "${ref.property_name}"`);
+            }
+            if (!serviceBacked.has(ref.processor_index)) {
+                serviceBacked.set(ref.processor_index, new Set());
+            }
+            serviceBacked.get(ref.processor_index)!.add(ref.property_name);
+        });
+    });
+
+    checkPortNames('input_ports', definition.input_ports || [], error);
+    checkPortNames('output_ports', definition.output_ports || [], error);
+
+    (definition.remote_process_groups || []).forEach((remoteGroup, g) => {
+        const path = `remote_process_groups[${g}]`;
+        const uris = (remoteGroup.target_uris || '').split(',').map(u => u.trim()).filter(Boolean);
+        if (uris.length === 0) {
+            error(path, 'target_uris is required (e.g., https://other-nifi:8443/nifi)');
+        }
+        for (const uri of uris.filter(u => !/^https?:\/\//i.test(u))) {
+            error(path, `"${uri}" is not an http(s) NiFi URL`);
+        }
+    });
+
+    (definition.labels || []).forEach((label, l) => {
+        const path = `labels[${l}]`;
+        if (!label.text) {
+            error(path, 'Label text is empty');
+        }
+        for (const index of label.processor_indexes || []) {
+            if (!isIndex(index, processors.length)) {
+                error(path, `processor_index ${index} is out of range (0-${processors.length - 1})`);
+            }
+        }
+    });
+
+    // Ports and funnels that nothing connects to do nothing but clutter the canvas
+    const connectedEnds = new Set(connections.flatMap(c => [sourceOf(c), destinationOf(c)]).map(e => `${e.kind}:${e.index}`));
+    const unconnected = (kind: FlowComponentKind, path: string, count: number) => {
+        for (let i = 0; i < count; i++) {
+            if (!connectedEnds.has(`${kind}:${i}`)) {
+                warning(`${path}[${i}]`, 'Not connected to anything');
+            }
+        }
+    };
+    unconnected('input_port', 'input_ports', countOf(definition, 'input_port'));
+    unconnected('output_port', 'output_ports', countOf(definition, 'output_port'));
+    unconnected('funnel', 'funnels', countOf(definition, 'funnel'));
+
+    connections.forEach((connDef, c) => {
+        const path = `connections[${c}]`;
+        const source = sourceOf(connDef);
+        const destination = destinationOf(connDef);
+        checkEnd(definition, source, 'from', path, error);
+        checkEnd(definition, destination, 'to', path, error);
+
+        // Inside their own group, input ports only emit and output ports only receive
+        if (source.kind === 'output_port' || source.kind === 'remote_input_port') {
+            error(path, `A ${source.kind} cannot be the source of a connection`);
+        }
+        if (destination.kind === 'input_port' || destination.kind === 'remote_output_port') {
+            error(path, `A ${destination.kind} cannot be the destination of a connection`);
+        }
+
+        if (source.kind !== 'processor') {
+            if (connDef.relationships && connDef.relationships.length > 0) {
+                warning(path, `Relationships are ignored when the source is a ${source.kind}`);
+            }
+        } else if (!connDef.relationships || connDef.relationships.length === 0) {
+            error(path, 'No relationships selected');
+        }
+        if (connDef.load_balance_strategy === 'PARTITION_BY_ATTRIBUTE' && !connDef.load_balance_partition_attribute) {
+            error(path, 'PARTITION_BY_ATTRIBUTE load balancing needs load_balance_partition_attribute');
+        }
+        for (const prioritizer of connDef.prioritizers || []) {
+            if (!prioritizerTypes[prioritizer] && !Object.values(prioritizerTypes).includes(prioritizer)) {
+                error(path, `Unknown prioritizer "${prioritizer}" (valid: ${Object.keys(prioritizerTypes).join(', ')})`);
+            }
+        }
+        if (source.kind === 'processor' && isIndex(source.index, processors.length)) {
+            checkRelationships(findProcessor(processors[source.index].type), connDef.relationships || [], path, error);
+        }
+    });
+
+    processors.forEach((procDef, i) => {
+        const path = `processors[${i}] "${procDef.name}"`;
+        const info = findProcessor(procDef.type);
+        if (!info) {
+            error(path, `Unknown processor type "${procDef.type}"`);
+            return;
+        }
+
+        const provided = { ...procDef.properties };
+        for (const name of serviceBacked.get(i) || []) {
+            provided[name] = '(controller service)';
+        }
+        for (const name of missingRequired(info, provided)) {
+            error(path, `Missing required property "${name}"`);
+        }
+
+        checkRelationships(info, procDef.auto_terminate || [], `${path}.auto_terminate`, error);
+        if (procDef.scheduling) {
+            checkScheduling(procDef.scheduling, `${path}.scheduling`, error);
+        }
+
+        // Every relationship must go somewhere, or NiFi reports the processor as invalid
+        const handled = new Set(procDef.auto_terminate || []);
+        for (const connDef of connectionsFromProcessor(definition, i)) {
+            (connDef.relationships || []).forEach(r => handled.add(r));
+        }
+        const dangling = info.relationships.filter(r => !handled.has(r));
+        if (dangling.length > 0) {
+            warning(path, `Relationship(s) neither connected nor auto-terminated: ${dangling.join(', ')}`);
+        }
+    });
+
+    const errors = issues.filter(i => i.severity === 'error');
+    const warnings = issues.filter(i => i.severity === 'warning');
+    return { valid: errors.length === 0, errors, warnings };
+}
+
+// Plain-text report, readable by the user and returned as-is to the model
+export function formatValidationReport(report: FlowValidationReport): string {
+    const lines: string[] = [];
+    for (const issue of report.errors) {
+        lines.push(`✗ ${issue.path}: ${issue.message}`);
+    }
+    for (const issue of report.warnings) {
+        lines.push(`⚠ ${issue.path}: ${issue.message}`);
+    }
+    return lines.join('\n');
+}
+
+// Catalog lookup by catalog name or fully qualified type
+function findProcessor(type: string): ProcessorTypeInfo | undefined {
+    return processorCatalog[type] || Object.values(processorCatalog).find(info => info.type === type);
+}
+
+function findControllerService(type: string): ControllerServiceTypeInfo | undefined {
+    return controllerServiceCatalog[type] || Object.values(controllerServiceCatalog).find(info => info.type === type);
+}
+
+// Required properties with no value from the definition, the curated defaults or NiFi's own defaults
+function missingRequired(
+    info: ProcessorTypeInfo | ControllerServiceTypeInfo,
+    provided: Record<string, string> | undefined
+): string[] {
+    return info.requiredProperties.filter(name =>
+        !provided?.[name]
+        && !info.defaultProperties?.[name]
+        && !info.properties?.[name]?.defaultValue);
+}
+
+function checkEnd(
+    definition: FlowDefinition,
+    end: ConnectionEnd,
+    side: 'from' | 'to',
+    path: string,
+    error: (path: string, message: string) => void
+): void {
+    const count = countOf(definition, end.kind);
+    if (!isIndex(end.index, count)) {
+        const range = count === 0 ? `the flow has no ${end.kind === 'processor' ? 'processors' : end.kind + 's'}` : `0-${count - 1}`;
+        error(path, `${side}_index ${end.index} is out of range for ${end.kind} (${range})`);
+    }
+    if (isRemote(end.kind) && !end.remotePort) {
+        error(path, `${side}_remote_port is required when ${side}_type is ${end.kind}`);
+    }
+}
+
+function checkPortNames(
+    path: string,
+    ports: Array<{ name: string }>,
+    error: (path: string, message: string) => void
+): void {
+    const seen = new Set<string>();
+    ports.forEach((port, p) => {
+        if (!port.name) {
+            error(`${path}[${p}]`, 'Port name is empty');
+        } else if (seen.has(port.name)) {
+            error(`${path}[${p}]`, `Duplicate port name "${port.name}"`);
+        }
+        seen.add(port.name);
+    });
+}
+
+function checkRelationships(
+    info: ProcessorTypeInfo | undefined,
+    relationships: string[],
+    path: string,
+    error: (path: string, message: string) => void
+): void {
+    // Processors with dynamic relationships report none up front; nothing to check against
+    if (!info || info.relationships.length === 0) {
+        return;
+    }
+    for (const relationship of relationships) {
+        if (info.relationships.includes(relationship)) {
+            continue;
+        }
+        const caseMatch = info.relationships.find(r => r.toLowerCase() === relationship.toLowerCase());
+        const hint = caseMatch
+            ? ` (did you mean "${caseMatch}"?)`
+            : ` (valid: ${info.relationships.join(', ')})`;
+        error(path, `Unknown relationship "${relationship}"${hint}`);
+    }
+}
+
+// Values NiFi offers for run duration, in milliseconds
+const RUN_DURATIONS = [0, 25, 50, 100, 250, 500, 1000, 2000];
+const TIME_PERIOD = /^\d+\s*(ns|nanos?|nanoseconds?|ms|millis?|milliseconds?|s|secs?|seconds?|m|mins?|minutes?|h|hrs?|hours?|d|days?)$/i;
+
+function checkScheduling(
+    scheduling: ProcessorScheduling,
+    path: string,
+    error: (path: string, message: string) => void
+): void {
+    if (scheduling.strategy === 'CRON_DRIVEN') {
+        // Quartz expressions: seconds minutes hours day-of-month month day-of-week [year]
+        const fields = (scheduling.period || '').trim().split(/\s+/).filter(Boolean);
+        if (fields.length < 6 || fields.length > 7) {
+            error(path, `CRON_DRIVEN needs a Quartz cron period such as "0 0 2 * * ?", got "${scheduling.period ?? ''}"`);
+        }
+    } else if (scheduling.period !== undefined && !TIME_PERIOD.test(scheduling.period.trim())) {
+        error(path, `Period "${scheduling.period}" is not a duration such as "5 min"; use strategy CRON_DRIVEN for cron expressions`);
+    }
+    for (const [field, value] of [['penalty_duration', scheduling.penalty_duration], ['yield_duration', scheduling.yield_duration]]) {
+        if (value !== undefined && !TIME_PERIOD.test(value.trim())) {
+            error(path, `${field} "${value}" is not a duration such as "30 sec"`);
+        }
+    }
+    if (scheduling.concurrent_tasks !== undefined
+        && (!Number.isInteger(scheduling.concurrent_tasks) || scheduling.concurrent_tasks < 1)) {
+        error(path, `concurrent_tasks must be a positive integer, got ${scheduling.concurrent_tasks}`);
+    }
+    if (scheduling.run_duration_millis !== undefined && !RUN_DURATIONS.includes(scheduling.run_duration_millis)) {
+        error(path, `run_duration_millis must be one of ${RUN_DURATIONS.join(', ')}`);
+    }
+}
+
+function isIndex(value: number, length: number): boolean {
+    return Number.isInteger(value) && value >= 0 && value < length;
+}
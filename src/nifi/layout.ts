@@ -0,0 +1,304 @@
+import { PositionDTO, ProcessGroupFlowEntity } from './types.js';
+import { FlowDefinition } from '../openai/service.js';
+import { isFailureRelationship } from './relationship-policy.js';
+import { ConnectionEnd, sourceOf, destinationOf, isRemote } from './flow-definition.js';
+
+// Canvas sizes of NiFi components, as drawn by the UI
+export const componentSizes = {
+    processor: { width: 352, height: 128 },
+    processGroup: { width: 384, height: 176 },
+    remoteProcessGroup: { width: 384, height: 176 },
+    port: { width: 240, height: 80 },
+    funnel: { width: 48, height: 48 },
+    label: { width: 150, height: 150 },
+};
+
+// Space kept between components
+const GAP_X = 100;
+const GAP_Y = 80;
+const MARGIN = 50;
+
+export interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface LayoutNode {
+    id: string;
+    width: number;
+    height: number;
+}
+
+export interface LayoutEdge {
+    from: string;
+    to: string;
+    // Error or side path: its target is pulled out of the main column
+    side?: boolean;
+}
+
+// Layered layout of a directed graph, top to bottom. Nodes reached only through side
+// edges (error handling) go in a column to the right of the main flow.
+export function layoutGraph(
+    nodes: LayoutNode[],
+    edges: LayoutEdge[],
+    origin: PositionDTO = { x: 100, y: 100 }
+): Map<string, PositionDTO> {
+    const ids = new Set(nodes.map(n => n.id));
+    const validEdges = edges.filter(e => ids.has(e.from) && ids.has(e.to) && e.from !== e.to);
+    const acyclic = removeBackEdges(nodes, validEdges);
+
+    const mainEdges = acyclic.filter(e => !e.side);
+    const reachedByMain = new Set(mainEdges.map(e => e.to));
+    const sideNodes = new Set(
+        acyclic.filter(e => e.side && !reachedByMain.has(e.to)).map(e => e.to)
+    );
+    const sideSources = new Set(mainEdges.map(e => e.from));
+    // A side node that feeds further main nodes is part of the main flow after all
+    for (const id of [...sideNodes]) {
+        if (sideSources.has(id)) {
+            sideNodes.delete(id);
+        }
+    }
+
+    const layers = assignLayers(nodes, acyclic, sideNodes);
+    const mainLayers = groupByLayer(nodes.filter(n => !sideNodes.has(n.id)), layers);
+    orderLayers(mainLayers, acyclic);
+
+    const positions = new Map<string, PositionDTO>();
+    const layerTops: number[] = [];
+    let y = origin.y;
+    const layerCount = Math.max(0, ...[...layers.values()].map(l => l + 1));
+    for (let layer = 0; layer < layerCount; layer++) {
+        layerTops[layer] = y;
+        const members = mainLayers[layer] || [];
+        const height = Math.max(componentSizes.processor.height, ...members.map(n => n.height));
+        y += height + GAP_Y;
+    }
+
+    // Center each layer on the widest one so straight chains line up vertically
+    const layerWidth = (members: LayoutNode[]) =>
+        members.reduce((sum, n) => sum + n.width, 0) + Math.max(0, members.length - 1) * GAP_X;
+    const widest = Math.max(0, ...mainLayers.map(m => layerWidth(m || [])));
+    mainLayers.forEach((members, layer) => {
+        let x = origin.x + (widest - layerWidth(members)) / 2;
+        for (const node of members) {
+            positions.set(node.id, { x: Math.round(x), y: layerTops[layer] });
+            x += node.width + GAP_X;
+        }
+    });
+
+    // Side nodes sit right of the main flow, level with the sources that feed them
+    const sideX = origin.x + widest + GAP_X * 2;
+    let nextSideY = origin.y;
+    for (const node of nodes.filter(n => sideNodes.has(n.id))) {
+        const sources = acyclic.filter(e => e.to === node.id).map(e => positions.get(e.from)).filter(Boolean) as PositionDTO[];
+        const wantedY = sources.length > 0
+            ? sources.reduce((sum, p) => sum + p.y, 0) / sources.length
+            : origin.y;
+        const y = Math.max(wantedY, nextSideY);
+        positions.set(node.id, { x: sideX, y: Math.round(y) });
+        nextSideY = y + node.height + GAP_Y;
+    }
+
+    return positions;
+}
+
+export interface FlowLayout {
+    processors: PositionDTO[];
+    inputPorts: PositionDTO[];
+    outputPorts: PositionDTO[];
+    funnels: PositionDTO[];
+    remoteProcessGroups: PositionDTO[];
+    // Labels are sized to the section they document
+    labels: Box[];
+}
+
+// Positions for every component of a flow definition inside its (empty) process group
+export function layoutFlowDefinition(
+    definition: FlowDefinition,
+    origin: PositionDTO = { x: 100, y: 100 }
+): FlowLayout {
+    const labels = definition.labels || [];
+    // Labels get a column of their own on the left
+    const graphOrigin = labels.length > 0
+        ? { x: origin.x + componentSizes.label.width + GAP_X, y: origin.y }
+        : origin;
+
+    const kinds: Array<{ prefix: string; count: number; size: { width: number; height: number } }> = [
+        { prefix: 'processor', count: definition.processors.length, size: componentSizes.processor },
+        { prefix: 'input_port', count: definition.input_ports?.length || 0, size: componentSizes.port },
+        { prefix: 'output_port', count: definition.output_ports?.length || 0, size: componentSizes.port },
+        { prefix: 'funnel', count: definition.funnels?.length || 0, size: componentSizes.funnel },
+        { prefix: 'remote_process_group', count: definition.remote_process_groups?.length || 0, size: componentSizes.remoteProcessGroup },
+    ];
+    const nodes: LayoutNode[] = kinds.flatMap(({ prefix, count, size }) =>
+        Array.from({ length: count }, (_, i) => ({ id: `${prefix}:${i}`, ...size })));
+    const edges: LayoutEdge[] = definition.connections.map(c => ({
+        from: layoutNodeId(sourceOf(c)),
+        to: layoutNodeId(destinationOf(c)),
+        side: c.relationships.length > 0 && c.relationships.every(isFailureRelationship),
+    }));
+
+    const positions = layoutGraph(nodes, edges, graphOrigin);
+    const positionsOf = (prefix: string, count: number) =>
+        Array.from({ length: count }, (_, i) => positions.get(`${prefix}:${i}`)!);
+    const processors = positionsOf('processor', definition.processors.length);
+
+    // Each label spans the processors it documents; unanchored ones stack below
+    let nextLabelY = origin.y;
+    const labelBoxes = labels.map(label => {
+        const anchored = (label.processor_indexes || []).map(i => processors[i]).filter(Boolean);
+        const top = anchored.length > 0 ? Math.min(...anchored.map(p => p.y)) : nextLabelY;
+        const bottom = anchored.length > 0
+            ? Math.max(...anchored.map(p => p.y + componentSizes.processor.height))
+            : top + componentSizes.label.height;
+        const y = Math.max(top, nextLabelY);
+        const height = Math.max(componentSizes.label.height, bottom - top);
+        nextLabelY = y + height + GAP_Y;
+        return { x: origin.x, y, width: componentSizes.label.width, height };
+    });
+
+    return {
+        processors,
+        inputPorts: positionsOf('input_port', definition.input_ports?.length || 0),
+        outputPorts: positionsOf('output_port', definition.output_ports?.length || 0),
+        funnels: positionsOf('funnel', definition.funnels?.length || 0),
+        remoteProcessGroups: positionsOf('remote_process_group', definition.remote_process_groups?.length || 0),
+        labels: labelBoxes,
+    };
+}
+
+// Remote ports are drawn as part of their remote process group
+function layoutNodeId(end: ConnectionEnd): string {
+    return isRemote(end.kind) ? `remote_process_group:${end.index}` : `${end.kind}:${end.index}`;
+}
+
+// Bounding boxes of everything already on a process group's canvas
+export function existingBoxes(flow: ProcessGroupFlowEntity): Box[] {
+    const contents = flow.processGroupFlow.flow;
+    const boxes: Box[] = [];
+    const add = (position: PositionDTO | undefined, size: { width: number; height: number }) => {
+        if (position) {
+            boxes.push({ x: position.x, y: position.y, ...size });
+        }
+    };
+
+    (contents.processors || []).forEach(p => add(p.component.position, componentSizes.processor));
+    (contents.processGroups || []).forEach(g => add(g.component.position, componentSizes.processGroup));
+    (contents.remoteProcessGroups || []).forEach(g => add(g.component.position, componentSizes.remoteProcessGroup));
+    (contents.inputPorts || []).forEach(p => add(p.component.position, componentSizes.port));
+    (contents.outputPorts || []).forEach(p => add(p.component.position, componentSizes.port));
+    (contents.funnels || []).forEach(f => add(f.component.position, componentSizes.funnel));
+    (contents.labels || []).forEach(l => add(l.component.position, {
+        width: l.component.width || componentSizes.label.width,
+        height: l.component.height || componentSizes.label.height,
+    }));
+    return boxes;
+}
+
+// Closest spot to the origin where a box of the given size overlaps nothing
+export function findFreeSpot(
+    existing: Box[],
+    size: { width: number; height: number },
+    origin: PositionDTO = { x: 100, y: 100 }
+): PositionDTO {
+    const candidates: PositionDTO[] = [{ ...origin }];
+    for (const box of existing) {
+        candidates.push({ x: box.x + box.width + MARGIN, y: box.y });
+        candidates.push({ x: box.x, y: box.y + box.height + MARGIN });
+        candidates.push({ x: box.x + box.width + MARGIN, y: origin.y });
+        candidates.push({ x: origin.x, y: box.y + box.height + MARGIN });
+    }
+
+    const free = candidates
+        .filter(c => c.x >= origin.x && c.y >= origin.y)
+        .filter(c => !existing.some(box => overlaps(box, { ...c, ...size })));
+    free.sort((a, b) => (a.x - origin.x + a.y - origin.y) - (b.x - origin.x + b.y - origin.y));
+    return free[0] || { x: origin.x, y: Math.max(origin.y, ...existing.map(b => b.y + b.height + MARGIN)) };
+}
+
+function overlaps(a: Box, b: Box): boolean {
+    return a.x < b.x + b.width + MARGIN
+        && b.x < a.x + a.width + MARGIN
+        && a.y < b.y + b.height + MARGIN
+        && b.y < a.y + a.height + MARGIN;
+}
+
+// Drop edges that close a cycle (found by DFS) so layering terminates
+function removeBackEdges(nodes: LayoutNode[], edges: LayoutEdge[]): LayoutEdge[] {
+    const state = new Map<string, 'visiting' | 'done'>();
+    const back = new Set<LayoutEdge>();
+
+    const visit = (id: string) => {
+        state.set(id, 'visiting');
+        for (const edge of edges.filter(e => e.from === id)) {
+            const target = state.get(edge.to);
+            if (target === 'visiting') {
+                back.add(edge);
+            } else if (!target) {
+                visit(edge.to);
+            }
+        }
+        state.set(id, 'done');
+    };
+
+    for (const node of nodes) {
+        if (!state.has(node.id)) {
+            visit(node.id);
+        }
+    }
+    return edges.filter(e => !back.has(e));
+}
+
+// Longest-path layering: each node sits one layer below its deepest predecessor
+function assignLayers(nodes: LayoutNode[], edges: LayoutEdge[], sideNodes: Set<string>): Map<string, number> {
+    const layers = new Map<string, number>();
+    const incoming = (id: string) => edges.filter(e => e.to === id && !sideNodes.has(e.to));
+
+    const layerOf = (id: string): number => {
+        if (layers.has(id)) {
+            return layers.get(id)!;
+        }
+        const preds = incoming(id);
+        const layer = preds.length === 0 ? 0 : Math.max(...preds.map(e => layerOf(e.from))) + 1;
+        layers.set(id, layer);
+        return layer;
+    };
+
+    for (const node of nodes) {
+        if (!sideNodes.has(node.id)) {
+            layerOf(node.id);
+        }
+    }
+    return layers;
+}
+
+function groupByLayer(nodes: LayoutNode[], layers: Map<string, number>): LayoutNode[][] {
+    const grouped: LayoutNode[][] = [];
+    for (const node of nodes) {
+        const layer = layers.get(node.id) || 0;
+        (grouped[layer] = grouped[layer] || []).push(node);
+    }
+    for (let i = 0; i < grouped.length; i++) {
+        grouped[i] = grouped[i] || [];
+    }
+    return grouped;
+}
+
+// Barycenter ordering: a few downward sweeps to reduce crossing connection lines
+function orderLayers(layers: LayoutNode[][], edges: LayoutEdge[]): void {
+    for (let sweep = 0; sweep < 4; sweep++) {
+        for (let i = 1; i < layers.length; i++) {
+            const previous = new Map(layers[i - 1].map((n, index) => [n.id, index]));
+            const barycenter = (node: LayoutNode, fallback: number) => {
+                const parents = edges.filter(e => e.to === node.id && previous.has(e.from)).map(e => previous.get(e.from)!);
+                return parents.length > 0 ? parents.reduce((a, b) => a + b, 0) / parents.length : fallback;
+            };
+            const scored = layers[i].map((node, index) => ({ node, score: barycenter(node, index) }));
+            scored.sort((a, b) => a.score - b.score);
+            layers[i] = scored.map(s => s.node);
+        }
+    }
+}
@@ -0,0 +1,253 @@
+import { NiFiClient } from './client.js';
+import { resolveProcessGroupId } from './process-groups.js';
+import { FlowBuildResult } from './flow-builder.js';
+import {
+    ProcessGroupStatusSnapshotDTO,
+    ProcessorStatusSnapshotDTO,
+    ConnectionStatusSnapshotDTO,
+    BulletinDTO,
+} from './types.js';
+
+// Health of a deployed flow: throughput, queues and bulletins, with a plain-language reading
+
+export interface ProcessorHealth {
+    id: string;
+    name: string;
+    type: string;
+    runStatus: string;
+    flowFilesIn: number;
+    flowFilesOut: number;
+    activeThreads: number;
+}
+
+export interface QueueHealth {
+    id: string;
+    from: string;
+    to: string;
+    relationships: string[];
+    flowFilesQueued: number;
+    bytesQueued: number;
+    // FlowFiles taken off the queue in the last 5 minutes
+    flowFilesOut: number;
+    // Share of the back pressure threshold in use, by count
+    percentFull?: number;
+}
+
+export interface BulletinSummary {
+    level: string;
+    source: string;
+    message: string;
+    timestamp?: string;
+}
+
+export interface FlowHealthReport {
+    processGroupId: string;
+    processGroupName: string;
+    // Counters cover NiFi's rolling 5-minute window
+    flowFilesIn: number;
+    flowFilesOut: number;
+    flowFilesQueued: number;
+    bytesQueued: number;
+    activeThreads: number;
+    processors: ProcessorHealth[];
+    queues: QueueHealth[];
+    bulletins: BulletinSummary[];
+    healthy: boolean;
+    findings: string[];
+}
+
+// Queues this full are about to trigger back pressure
+const BACK_PRESSURE_WARNING_PERCENT = 80;
+const MAX_BULLETINS = 20;
+
+export class FlowMonitor {
+    private client: NiFiClient;
+
+    constructor(client: NiFiClient) {
+        this.client = client;
+    }
+
+    // Pass the build result for a flow created this session to also check its components still exist
+    async getHealth(groupRef: string, build?: FlowBuildResult): Promise<FlowHealthReport> {
+        const groupId = build?.processGroupId || await resolveProcessGroupId(this.client, groupRef);
+        const status = await this.client.getProcessGroupStatus(groupId);
+        const snapshot = status.processGroupStatus.aggregateSnapshot;
+
+        const groups = flattenGroups(snapshot);
+        const processorSnapshots = groups.flatMap(g => (g.processorStatusSnapshots || []).map(s => s.processorStatusSnapshot));
+        const connectionSnapshots = groups.flatMap(g => (g.connectionStatusSnapshots || []).map(s => s.connectionStatusSnapshot));
+
+        const relationships = await this.relationshipsByConnection(groups.map(g => g.id));
+        const bulletins = await this.recentBulletins(new Set(groups.map(g => g.id)));
+
+        const report: FlowHealthReport = {
+            processGroupId: groupId,
+            processGroupName: snapshot.name,
+            flowFilesIn: snapshot.flowFilesIn,
+            flowFilesOut: snapshot.flowFilesOut,
+            flowFilesQueued: snapshot.flowFilesQueued,
+            bytesQueued: snapshot.bytesQueued,
+            activeThreads: snapshot.activeThreadCount,
+            processors: processorSnapshots.map(toProcessorHealth),
+            queues: connectionSnapshots.map(c => toQueueHealth(c, relationships.get(c.id) || [])),
+            bulletins: bulletins.map(b => ({
+                level: b.level,
+                source: b.sourceName || b.sourceId || 'NiFi',
+                message: cleanMessage(b.message),
+                timestamp: b.timestamp,
+            })),
+            healthy: true,
+            findings: [],
+        };
+        const problems = findProblems(report, processorSnapshots, connectionSnapshots, build);
+        report.healthy = problems.length === 0;
+        report.findings = report.healthy ? [describeHealthy(report)] : problems;
+        return report;
+    }
+
+    private async relationshipsByConnection(groupIds: string[]): Promise<Map<string, string[]>> {
+        const relationships = new Map<string, string[]>();
+        for (const groupId of groupIds) {
+            const flow = await this.client.getProcessGroupFlow(groupId);
+            for (const connection of flow.processGroupFlow.flow.connections || []) {
+                relationships.set(connection.component.id!, connection.component.selectedRelationships || []);
+            }
+        }
+        return relationships;
+    }
+
+    // The bulletin board filters on the immediate group only, so filter the subtree here
+    private async recentBulletins(groupIds: Set<string>): Promise<BulletinDTO[]> {
+        // NiFi filters on the server, before the limit, so busy groups elsewhere can't crowd these out
+        const entities = await this.client.getBulletins({ groupId: `^(?:${[...groupIds].join('|')})$`, limit: 200 });
+        return entities
+            .filter(e => e.bulletin && e.groupId && groupIds.has(e.groupId))
+            .map(e => e.bulletin!)
+            .sort((a, b) => b.id - a.id)
+            .slice(0, MAX_BULLETINS);
+    }
+}
+
+// Plain-language problems, most serious first
+function findProblems(
+    report: FlowHealthReport,
+    processors: ProcessorStatusSnapshotDTO[],
+    connections: ConnectionStatusSnapshotDTO[],
+    build?: FlowBuildResult
+): string[] {
+    const findings: string[] = [];
+
+    // Latest error or warning per component
+    const latestBySource = new Map<string, BulletinSummary>();
+    for (const bulletin of report.bulletins) {
+        if ((bulletin.level === 'ERROR' || bulletin.level === 'WARNING') && !latestBySource.has(bulletin.source)) {
+            latestBySource.set(bulletin.source, bulletin);
+        }
+    }
+    for (const [source, bulletin] of latestBySource) {
+        findings.push(bulletin.level === 'ERROR'
+            ? `${source} is failing: ${bulletin.message}`
+            : `${source} warned: ${bulletin.message}`);
+    }
+
+    for (const queue of [...report.queues].sort((a, b) => b.flowFilesQueued - a.flowFilesQueued)) {
+        if (queue.flowFilesQueued === 0) {
+            continue;
+        }
+        const on = queue.relationships.length > 0 ? ` on ${queue.relationships.join(', ')}` : '';
+        let finding = `${formatCount(queue.flowFilesQueued)} FlowFiles (${formatBytes(queue.bytesQueued)}) queued${on} from ${queue.from} to ${queue.to}`;
+        if ((queue.percentFull ?? 0) >= BACK_PRESSURE_WARNING_PERCENT) {
+            finding += ` — ${queue.percentFull}% of the back pressure threshold, ${queue.from} will be paused`;
+        }
+        findings.push(finding);
+    }
+
+    const byStatus = (status: string) => processors.filter(p => p.runStatus === status).map(p => p.name);
+    const invalid = byStatus('Invalid');
+    if (invalid.length > 0) {
+        findings.push(`Invalid, cannot run: ${invalid.join(', ')}`);
+    }
+    const stopped = byStatus('Stopped');
+    if (stopped.length > 0) {
+        findings.push(`Stopped: ${stopped.join(', ')}`);
+    }
+
+    // Running sources that produced nothing in the whole window
+    const hasIncoming = new Set(connections.map(c => c.destinationId));
+    for (const processor of processors) {
+        if (processor.runStatus === 'Running' && !hasIncoming.has(processor.id) && processor.flowFilesOut === 0) {
+            findings.push(`${processor.name} is running but produced no FlowFiles in the last 5 minutes`);
+        }
+    }
+
+    if (build) {
+        const present = new Set(processors.map(p => p.id));
+        const missing = build.processorIds.filter(id => !present.has(id));
+        if (missing.length > 0) {
+            findings.push(`${missing.length} processor(s) created by the agent are no longer in the flow`);
+        }
+    }
+    return findings;
+}
+
+function describeHealthy(report: FlowHealthReport): string {
+    const running = report.processors.filter(p => p.runStatus === 'Running').length;
+    return `Healthy: ${running} processor(s) running; ${formatCount(report.flowFilesIn)} FlowFiles in and `
+        + `${formatCount(report.flowFilesOut)} out over the last 5 minutes, nothing queued`;
+}
+
+function flattenGroups(snapshot: ProcessGroupStatusSnapshotDTO): ProcessGroupStatusSnapshotDTO[] {
+    const children = (snapshot.processGroupStatusSnapshots || []).map(s => s.processGroupStatusSnapshot);
+    return [snapshot, ...children.flatMap(flattenGroups)];
+}
+
+function toProcessorHealth(snapshot: ProcessorStatusSnapshotDTO): ProcessorHealth {
+    return {
+        id: snapshot.id,
+        name: snapshot.name,
+        type: snapshot.type,
+        runStatus: snapshot.runStatus,
+        flowFilesIn: snapshot.flowFilesIn,
+        flowFilesOut: snapshot.flowFilesOut,
+        activeThreads: snapshot.activeThreadCount,
+    };
+}
+
+function toQueueHealth(snapshot: ConnectionStatusSnapshotDTO, relationships: string[]): QueueHealth {
+    return {
+        id: snapshot.id,
+        from: snapshot.sourceName,
+        to: snapshot.destinationName,
+        relationships,
+        flowFilesQueued: snapshot.flowFilesQueued,
+        bytesQueued: snapshot.bytesQueued,
+        flowFilesOut: snapshot.flowFilesOut,
+        percentFull: snapshot.percentUseCount,
+    };
+}
+
+// Bulletins start with "ProcessorName[id=...] "; the source is reported separately
+function cleanMessage(message: string): string {
+    return message.replace(/^[^\[]*\[id=[^\]]+\]\s*/, '').trim();
+}
+
+export function formatCount(count: number): string {
+    if (count >= 1_000_000) {
+        return `${(count / 1_000_000).toFixed(count >= 10_000_000 ? 0 : 1)}M`;
+    }
+    if (count >= 1000) {
+        return `${(count / 1000).toFixed(count >= 10_000 ? 0 : 1)}k`;
+    }
+    return String(count);
+}
+
+export function formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,84 @@
+import { FlowDefinition } from '../openai/service.js';
+import { processorCatalog, controllerServiceCatalog, isSensitiveProperty } from '../processors/catalog.js';
+import { containsPlaceholder } from '../security/redaction.js';
+import { ParameterDTO, ProcessorTypeInfo, ControllerServiceTypeInfo } from './types.js';
+
+// Each flow keeps its secrets and environment-specific values in its own parameter context,
+// so promoting a flow means swapping the context rather than editing processors
+
+export interface ParameterizedFlow {
+    // Copy of the definition with #{name} references in place of the extracted values
+    definition: FlowDefinition;
+    parameters: ParameterDTO[];
+}
+
+export const MASKED_VALUE = '********';
+
+export function extractParameters(proposed: FlowDefinition): ParameterizedFlow {
+    const definition: FlowDefinition = JSON.parse(JSON.stringify(proposed));
+    const parameters = new Map<string, ParameterDTO>();
+    // Parameter already created for a property and value
+    const shared = new Map<string, string>();
+
+    const extract = (
+        componentName: string,
+        info: ProcessorTypeInfo | ControllerServiceTypeInfo | undefined,
+        properties: Record<string, string>
+    ) => {
+        for (const [property, value] of Object.entries(properties || {})) {
+            // Empty values have nothing to hide, and existing references are already parameterized
+            if (!value || value.includes('#{')) {
+                continue;
+            }
+            // A value holding a typed-in secret is sensitive whatever the property
+            const sensitive = isSensitiveProperty(info, property) || containsPlaceholder(value);
+            if (!sensitive && !info?.environmentProperties?.includes(property)) {
+                continue;
+            }
+
+            // Components sharing a value share the parameter, e.g. one broker URI for every MQTT processor
+            const key = JSON.stringify([property, value, sensitive]);
+            let name = shared.get(key);
+            if (!name) {
+                name = parameters.has(parameterName(property))
+                    ? uniqueName(parameterName(`${componentName} ${property}`), parameters)
+                    : parameterName(property);
+                parameters.set(name, { name, sensitive, value, description: `${property} of ${componentName}` });
+                shared.set(key, name);
+            }
+            properties[property] = `#{${name}}`;
+        }
+    };
+
+    for (const serviceDef of definition.controller_services || []) {
+        const info = controllerServiceCatalog[serviceDef.type]
+            || Object.values(controllerServiceCatalog).find(entry => entry.type === serviceDef.type);
+        extract(serviceDef.name, info, serviceDef.properties);
+    }
+    for (const procDef of definition.processors) {
+        const info = processorCatalog[procDef.type]
+            || Object.values(processorCatalog).find(entry => entry.type === procDef.type);
+        extract(procDef.name, info, procDef.properties);
+    }
+
+    return { definition, parameters: [...parameters.values()] };
+}
+
+export function describeParameter(parameter: ParameterDTO): string {
+    return parameter.sensitive
+        ? `${parameter.name} = ${MASKED_VALUE} (sensitive)`
+        : `${parameter.name} = ${parameter.value}`;
+}
+
+// NiFi allows letters, digits, spaces, '-', '_' and '.' in parameter names; keep to a URL-like subset
+function parameterName(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function uniqueName(base: string, taken: Map<string, ParameterDTO>): string {
+    let name = base;
+    for (let i = 2; taken.has(name); i++) {
+        name = `${base}-${i}`;
+    }
+    return name;
+}
@@ -0,0 +1,79 @@
+import { NiFiClient } from './client.js';
+import { ProcessGroupEntity } from './types.js';
+
+export interface ProcessGroupSummary {
+    id: string;
+    name: string;
+    parentGroupId: string;
+    path: string;
+    comments?: string;
+    // Component counts, as the parent's flow reports them
+    running?: number;
+    stopped?: number;
+    invalid?: number;
+    disabled?: number;
+}
+
+// Walk the process group tree below a starting group (root by default)
+export async function listProcessGroups(
+    client: NiFiClient,
+    startGroupId?: string
+): Promise<ProcessGroupSummary[]> {
+    const rootId = startGroupId || await client.getRootProcessGroupId();
+    const summaries: ProcessGroupSummary[] = [];
+
+    const visit = async (groupId: string, path: string): Promise<void> => {
+        const flow = await client.getProcessGroupFlow(groupId);
+        const children: ProcessGroupEntity[] = flow.processGroupFlow.flow.processGroups || [];
+        for (const child of children) {
+            const childPath = `${path}/${child.component.name}`;
+            summaries.push({
+                id: child.component.id!,
+                name: child.component.name,
+                parentGroupId: groupId,
+                path: childPath,
+                comments: child.component.comments,
+                running: child.component.runningCount,
+                stopped: child.component.stoppedCount,
+                invalid: child.component.invalidCount,
+                disabled: child.component.disabledCount,
+            });
+            await visit(child.component.id!, childPath);
+        }
+    };
+
+    await visit(rootId, '');
+    return summaries;
+}
+
+// Resolve a process group reference (ID, name or path) to its ID
+export async function resolveProcessGroupId(client: NiFiClient, ref: string): Promise<string> {
+    const groups = await listProcessGroups(client);
+    const needle = ref.trim().toLowerCase();
+
+    const byId = groups.find(g => g.id === ref.trim());
+    if (byId) {
+        return byId.id;
+    }
+
+    const exact = groups.filter(g => g.name.toLowerCase() === needle || g.path.toLowerCase() === needle);
+    if (exact.length === 1) {
+        return exact[0].id;
+    }
+
+    const partial = exact.length > 0 ? exact : groups.filter(g => g.name.toLowerCase().includes(needle));
+    if (partial.length === 1) {
+        return partial[0].id;
+    }
+    if (partial.length > 1) {
+        throw new Error(`Process group "${ref}" is ambiguous: ${partial.map(g => g.path).join(', ')}`);
+    }
+
+    // Fall back to treating the reference as an ID that is not below root (e.g. root itself)
+    try {
+        const group = await client.getProcessGroup(ref.trim());
+        return group.component.id!;
+    } catch {
+        throw new Error(`Process group "${ref}" not found`);
+    }
+}
@@ -0,0 +1,212 @@
+import { NiFiClient } from './client.js';
+import { listProcessGroups, resolveProcessGroupId } from './process-groups.js';
+import { isFailureRelationship } from './relationship-policy.js';
+import { ProcessorEntity, ProvenanceEventDTO } from './types.js';
+import { shortType } from './describe.js';
+
+// Traces FlowFiles through a flow with NiFi provenance, so the model can explain where data went
+
+export interface TraceRequest {
+    process_group?: string;
+    // Processor name, type or ID whose recent FlowFiles should be traced
+    processor?: string;
+    flowfile_uuid?: string;
+    max_events?: number;
+}
+
+export interface TracedEvent {
+    eventId: number;
+    time: string;
+    type: string;
+    component: string;
+    flowFileUuid: string;
+    relationship?: string;
+    details?: string;
+    transitUri?: string;
+    // Attributes added or changed by this event
+    changedAttributes?: Record<string, string | undefined>;
+}
+
+export interface FlowFileTrace {
+    flowFileUuid: string;
+    events: TracedEvent[];
+    // Where the FlowFile ended up, in plain language
+    outcome: string;
+    // Attributes and first bytes of content at the last event
+    finalAttributes?: Record<string, string | undefined>;
+    contentSnippet?: string;
+}
+
+export interface TraceResult {
+    // Recent events at the processor, when tracing by processor
+    recentEvents?: TracedEvent[];
+    traces: FlowFileTrace[];
+}
+
+const DEFAULT_MAX_EVENTS = 20;
+// Lineage events fetched in full per FlowFile; older ones are summarised from the lineage graph only
+const MAX_DETAILED_EVENTS = 25;
+const CONTENT_SNIPPET_BYTES = 512;
+// FlowFiles traced end to end when tracing by processor
+const MAX_TRACES = 3;
+// A processor reference that is already a component ID
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class ProvenanceTracer {
+    private client: NiFiClient;
+
+    constructor(client: NiFiClient) {
+        this.client = client;
+    }
+
+    async trace(request: TraceRequest): Promise<TraceResult> {
+        if (request.flowfile_uuid) {
+            return { traces: [await this.traceFlowFile(request.flowfile_uuid.trim())] };
+        }
+        if (!request.processor) {
+            throw new Error('Name a processor or give a FlowFile UUID to trace');
+        }
+
+        const componentId = await this.findComponentId(request.processor, request.process_group);
+        const events = await this.client.queryProvenance({
+            maxResults: request.max_events || DEFAULT_MAX_EVENTS,
+            searchTerms: { ComponentID: { value: componentId } },
+        });
+        events.sort((a, b) => b.eventId - a.eventId);
+
+        // Follow the most recent distinct FlowFiles through the rest of the flow
+        const uuids = [...new Set(events.map(e => e.flowFileUuid))].slice(0, MAX_TRACES);
+        const traces: FlowFileTrace[] = [];
+        for (const uuid of uuids) {
+            traces.push(await this.traceFlowFile(uuid));
+        }
+        return { recentEvents: events.map(toTracedEvent), traces };
+    }
+
+    private async traceFlowFile(flowFileUuid: string): Promise<FlowFileTrace> {
+        const lineage = await this.client.queryLineage(flowFileUuid);
+        const eventIds = (lineage.results?.nodes || [])
+            .filter(n => n.type === 'EVENT')
+            .map(n => Number(n.id))
+            .sort((a, b) => a - b);
+
+        // Lineage also covers parents and children (clones, splits); the newest events matter most
+        const events: ProvenanceEventDTO[] = [];
+        for (const eventId of eventIds.slice(-MAX_DETAILED_EVENTS)) {
+            events.push(await this.client.getProvenanceEvent(eventId));
+        }
+        if (events.length === 0) {
+            return {
+                flowFileUuid,
+                events: [],
+                outcome: 'No provenance events found; the data may have aged out of the provenance repository',
+            };
+        }
+
+        const own = events.filter(e => e.flowFileUuid === flowFileUuid);
+        const path = own.length > 0 ? own : events;
+        const last = path[path.length - 1];
+        return {
+            flowFileUuid,
+            events: events.map(toTracedEvent),
+            outcome: describeOutcome(last, events),
+            finalAttributes: Object.fromEntries((last.attributes || []).map(a => [a.name, a.value])),
+            contentSnippet: await this.contentSnippet(last),
+        };
+    }
+
+    private async contentSnippet(event: ProvenanceEventDTO): Promise<string | undefined> {
+        const direction = event.outputContentAvailable ? 'output' : event.inputContentAvailable ? 'input' : undefined;
+        if (!direction) {
+            return undefined;
+        }
+        try {
+            return await this.client.getProvenanceContent(event.eventId, direction, CONTENT_SNIPPET_BYTES);
+        } catch {
+            // Content may have been archived away or access may be restricted; the trace is still useful
+            return undefined;
+        }
+    }
+
+    // Without a process group, a name or type is looked up in every group and must match only one processor
+    private async findComponentId(processorRef: string, groupRef?: string): Promise<string> {
+        if (!groupRef) {
+            if (UUID_PATTERN.test(processorRef.trim())) {
+                return processorRef.trim();
+            }
+            const rootId = await this.client.getRootProcessGroupId();
+            const groups = [{ id: rootId, path: '/' }, ...await listProcessGroups(this.client, rootId)];
+            const matches: Array<{ processor: ProcessorEntity; path: string }> = [];
+            for (const group of groups) {
+                for (const processor of await this.processorsMatching(group.id, processorRef)) {
+                    matches.push({ processor, path: group.path });
+                }
+            }
+            if (matches.length === 1) {
+                return matches[0].processor.component.id!;
+            }
+            const found = matches.length === 0
+                ? `Processor "${processorRef}" not found in any process group`
+                : `Processor "${processorRef}" is ambiguous: ${matches.map(m => `${m.processor.component.name} in ${m.path}`).join(', ')}`;
+            throw new Error(`${found}; give the process group or the processor ID`);
+        }
+        const groupId = await resolveProcessGroupId(this.client, groupRef);
+        const match = (await this.processorsMatching(groupId, processorRef))[0];
+        if (!match) {
+            throw new Error(`Processor "${processorRef}" not found in process group "${groupRef}"`);
+        }
+        return match.component.id!;
+    }
+
+    // Processors in one group with this ID, name or type
+    private async processorsMatching(groupId: string, processorRef: string): Promise<ProcessorEntity[]> {
+        const flow = await this.client.getProcessGroupFlow(groupId);
+        const needle = processorRef.trim().toLowerCase();
+        return (flow.processGroupFlow.flow.processors || []).filter(p =>
+            p.component.id === processorRef.trim()
+            || p.component.name.toLowerCase() === needle
+            || shortType(p.component.type).toLowerCase() === needle);
+    }
+}
+
+function toTracedEvent(event: ProvenanceEventDTO): TracedEvent {
+    const changed = (event.attributes || []).filter(a => a.value !== a.previousValue);
+    return {
+        eventId: event.eventId,
+        time: event.eventTime,
+        type: event.eventType,
+        component: event.componentName,
+        flowFileUuid: event.flowFileUuid,
+        relationship: event.relationship,
+        details: event.details,
+        transitUri: event.transitUri,
+        changedAttributes: changed.length > 0
+            ? Object.fromEntries(changed.map(a => [a.name, a.value]))
+            : undefined,
+    };
+}
+
+// The last event says whether the FlowFile was delivered, dropped, expired or is still waiting
+function describeOutcome(last: ProvenanceEventDTO, events: ProvenanceEventDTO[]): string {
+    const at = `at ${last.componentName}`;
+    switch (last.eventType) {
+        case 'SEND':
+        case 'REMOTE_INVOCATION':
+            return `Delivered ${at}${last.transitUri ? ` to ${last.transitUri}` : ''}`;
+        case 'EXPIRE':
+            return `Expired in the queue ${at}${last.details ? ` (${last.details})` : ''}`;
+        case 'DROP': {
+            // An auto-terminated FlowFile is routed, then dropped, by the same processor
+            const routed = [...events].reverse().find(e => e.eventType === 'ROUTE' && e.componentId === last.componentId);
+            const relationship = last.relationship || routed?.relationship;
+            if (relationship && isFailureRelationship(relationship)) {
+                return `Routed to ${relationship} and dropped ${at}${last.details ? ` (${last.details})` : ''}`;
+            }
+            return `Dropped ${at}${last.details ? ` (${last.details})` : ''}`;
+        }
+        case 'ROUTE':
+            return `Routed to ${last.relationship || 'an unknown relationship'} ${at} and not seen since`;
+        default:
+            return `Last seen ${at} (${last.eventType}${last.details ? `: ${last.details}` : ''}); it may still be queued downstream`;
+    }
+}
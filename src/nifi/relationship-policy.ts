@@ -0,0 +1,84 @@
+import { FlowDefinition } from '../openai/service.js';
+import { processorCatalog } from '../processors/catalog.js';
+import { config } from '../config/environment.js';
+import { connectionsFromProcessor } from './flow-definition.js';
+
+// What to do with processor relationships the flow definition leaves unconnected
+export type UnconnectedRelationshipStrategy = 'auto-terminate' | 'error-branch' | 'report';
+
+export interface RelationshipPolicyResult {
+    definition: FlowDefinition;
+    // Human-readable list of what the policy changed or left alone
+    notes: string[];
+}
+
+// Name of the processor generated to collect failures under the error-branch strategy
+export const ERROR_BRANCH_NAME = 'Log Errors';
+
+// Relationships that signal a problem and deserve an error path rather than being dropped
+const FAILURE_RELATIONSHIP = /fail|retry|error|invalid|unmatched|timeout/i;
+
+export function isFailureRelationship(relationship: string): boolean {
+    return FAILURE_RELATIONSHIP.test(relationship);
+}
+
+export function applyRelationshipPolicy(
+    definition: FlowDefinition,
+    strategy: UnconnectedRelationshipStrategy = definition.unconnected_relationships || config.flow.unconnectedRelationships
+): RelationshipPolicyResult {
+    // Work on a copy so the definition proposed by the model stays untouched
+    const result: FlowDefinition = JSON.parse(JSON.stringify(definition));
+    const notes: string[] = [];
+    const toErrorBranch: Array<{ index: number; relationships: string[] }> = [];
+
+    result.processors.forEach((procDef, i) => {
+        const info = processorCatalog[procDef.type]
+            || Object.values(processorCatalog).find(entry => entry.type === procDef.type);
+        if (!info) {
+            return;
+        }
+
+        const handled = new Set(procDef.auto_terminate || []);
+        for (const connDef of connectionsFromProcessor(result, i)) {
+            connDef.relationships.forEach(r => handled.add(r));
+        }
+        const dangling = info.relationships.filter(r => !handled.has(r));
+        if (dangling.length === 0) {
+            return;
+        }
+
+        if (strategy === 'report') {
+            notes.push(`${procDef.name}: unconnected ${dangling.join(', ')} (left as is)`);
+            return;
+        }
+
+        // Without LogAttribute on this NiFi there is no branch to route to
+        const branchAvailable = strategy === 'error-branch' && !!processorCatalog.LogAttribute;
+        const failures = branchAvailable ? dangling.filter(isFailureRelationship) : [];
+        const terminated = dangling.filter(r => !failures.includes(r));
+
+        if (terminated.length > 0) {
+            procDef.auto_terminate = [...(procDef.auto_terminate || []), ...terminated];
+            notes.push(`${procDef.name}: auto-terminated ${terminated.join(', ')}`);
+        }
+        if (failures.length > 0) {
+            toErrorBranch.push({ index: i, relationships: failures });
+            notes.push(`${procDef.name}: routed ${failures.join(', ')} to "${ERROR_BRANCH_NAME}"`);
+        }
+    });
+
+    if (toErrorBranch.length > 0) {
+        const branchIndex = result.processors.length;
+        result.processors.push({
+            name: ERROR_BRANCH_NAME,
+            type: 'LogAttribute',
+            properties: { 'Log Level': 'warn', 'Log Payload': 'false' },
+            auto_terminate: ['success'],
+        });
+        for (const { index, relationships } of toErrorBranch) {
+            result.connections.push({ from_index: index, to_index: branchIndex, relationships });
+        }
+    }
+
+    return { definition: result, notes };
+}
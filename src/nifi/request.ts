@@ -0,0 +1,125 @@
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+
+// Recovery rules applied to every NiFi API call: re-login on 401, refresh a stale revision on 409,
+// and back off and retry transient failures
+
+export interface RequestPolicy {
+    // Retries for 5xx responses and network errors; the delay doubles after each attempt
+    maxRetries: number;
+    retryDelayMs: number;
+    // Retries with a refreshed revision after NiFi reports the one sent as out of date
+    conflictRetries: number;
+    // Called on 401; resolves once a fresh token is in place
+    reauthenticate?: () => Promise<void>;
+    // The login request itself, which must not trigger re-authentication
+    authPath?: string;
+    onRetry?: (reason: string, attempt: number, delayMs: number) => void;
+}
+
+interface RetryState {
+    transient: number;
+    conflicts: number;
+    reauthenticated: boolean;
+}
+
+type TrackedRequest = InternalAxiosRequestConfig & { retryState?: RetryState };
+
+// Safe to repeat whatever happened to the first attempt; a repeated PUT meets a 409 at worst
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options', 'put', 'delete']);
+const NETWORK_ERRORS = new Set(['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN']);
+// How NiFi words a 409 caused by an outdated revision, as opposed to one caused by component state
+const STALE_REVISION = /up-to-date revision|been modified/i;
+
+export function applyRequestPolicy(http: AxiosInstance, policy: RequestPolicy): void {
+    // Concurrent 401s share one login
+    let reauthentication: Promise<void> | null = null;
+
+    http.interceptors.response.use(undefined, async (error: AxiosError) => {
+        const request = error.config as TrackedRequest | undefined;
+        if (!request) {
+            throw error;
+        }
+        const state = request.retryState ??= { transient: 0, conflicts: 0, reauthenticated: false };
+        const status = error.response?.status;
+
+        if (status === 401 && policy.reauthenticate && !state.reauthenticated && request.url !== policy.authPath) {
+            state.reauthenticated = true;
+            reauthentication ??= policy.reauthenticate().finally(() => {
+                reauthentication = null;
+            });
+            await reauthentication;
+            request.headers.set('Authorization', http.defaults.headers.common['Authorization'] as string | undefined);
+            return http.request(request);
+        }
+
+        if (status === 409 && STALE_REVISION.test(responseMessage(error)) && state.conflicts < policy.conflictRetries) {
+            const version = await latestVersion(http, request);
+            if (version !== undefined && setVersion(request, version)) {
+                state.conflicts++;
+                policy.onRetry?.('revision conflict', state.conflicts, 0);
+                return http.request(request);
+            }
+        }
+
+        if (isTransient(error, request) && state.transient < policy.maxRetries) {
+            state.transient++;
+            const delay = policy.retryDelayMs * 2 ** (state.transient - 1);
+            policy.onRetry?.(status ? `HTTP ${status}` : error.code || 'network error', state.transient, delay);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            return http.request(request);
+        }
+
+        throw error;
+    });
+}
+
+function isTransient(error: AxiosError, request: TrackedRequest): boolean {
+    const method = (request.method || 'get').toLowerCase();
+    if (error.response) {
+        return error.response.status >= 500 && IDEMPOTENT_METHODS.has(method);
+    }
+    // A refused connection never reached NiFi, so even a create can be sent again
+    return error.code === 'ECONNREFUSED' || (NETWORK_ERRORS.has(error.code || '') && IDEMPOTENT_METHODS.has(method));
+}
+
+function responseMessage(error: AxiosError): string {
+    const data = error.response?.data as any;
+    return typeof data === 'string' ? data : data?.message || '';
+}
+
+// The component a revisioned call targets: /processors/{id} for both /processors/{id} and /processors/{id}/run-status
+async function latestVersion(http: AxiosInstance, request: TrackedRequest): Promise<number | undefined> {
+    if (!request.url) {
+        return undefined;
+    }
+    try {
+        const response = await http.get(request.url.replace(/\/run-status$/, ''));
+        return response.data?.revision?.version;
+    } catch {
+        return undefined;
+    }
+}
+
+// Revisions travel in the body for updates and as a query parameter for deletes
+function setVersion(request: TrackedRequest, version: number): boolean {
+    if (request.params?.version !== undefined) {
+        request.params = { ...request.params, version };
+        return true;
+    }
+
+    const body = typeof request.data === 'string' ? safeParse(request.data) : request.data;
+    if (!body?.revision) {
+        return false;
+    }
+    body.revision = { ...body.revision, version };
+    request.data = JSON.stringify(body);
+    return true;
+}
+
+function safeParse(text: string): any {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,335 @@
+import { NiFiClient } from './client.js';
+import { resolveProcessGroupId } from './process-groups.js';
+import { FlowController, orderByDependency } from './flow-control.js';
+import { FLOW_GROUP_COMMENT } from './flow-builder.js';
+import { RevisionDTO, ConnectionEntity, ConnectionStatusSnapshotDTO, ProcessGroupStatusSnapshotDTO } from './types.js';
+import { describeError } from './describe.js';
+
+export type TeardownKind =
+    | 'connection'
+    | 'process group'
+    | 'processor'
+    | 'input port'
+    | 'output port'
+    | 'funnel'
+    | 'remote process group'
+    | 'label'
+    | 'controller service'
+    | 'parameter context';
+
+export interface TeardownItem {
+    kind: TeardownKind;
+    id: string;
+    name: string;
+    // Process group path below the deleted group, empty for the group itself and for the parent
+    // group's connections to its ports
+    group: string;
+}
+
+export interface QueuedData {
+    connectionId: string;
+    name: string;
+    group: string;
+    flowFilesQueued: number;
+    bytesQueued: number;
+}
+
+export interface TeardownPlan {
+    processGroupId: string;
+    processGroupName: string;
+    createdByAgent: boolean;
+    // Everything that will be removed, in deletion order; the group itself comes last, followed by
+    // its parameter context when no other group uses it
+    items: TeardownItem[];
+    queues: QueuedData[];
+    flowFilesQueued: number;
+    bytesQueued: number;
+    // Components that will be stopped or disabled first
+    running: TeardownItem[];
+}
+
+export interface TeardownResult {
+    processGroupId: string;
+    processGroupName: string;
+    success: boolean;
+    deleted: TeardownItem[];
+    flowFilesDropped: number;
+    errors: string[];
+}
+
+// A deletion step: the item, the revision it was read at, and how to delete it
+interface DeleteStep {
+    item: TeardownItem;
+    revision: RevisionDTO;
+    remove: (version: number) => Promise<unknown>;
+}
+
+export class FlowTeardown {
+    private client: NiFiClient;
+    private controller: FlowController;
+
+    constructor(client: NiFiClient) {
+        this.client = client;
+        this.controller = new FlowController(client);
+    }
+
+    // Read-only: what deleting this group would remove, what runs and how much data is queued
+    async planTeardown(groupRef: string): Promise<TeardownPlan> {
+        const groupId = await resolveProcessGroupId(this.client, groupRef);
+        if (groupId === await this.client.getRootProcessGroupId()) {
+            throw new Error('The root process group cannot be deleted');
+        }
+
+        const group = await this.client.getProcessGroup(groupId);
+        const steps = await this.collectSteps(groupId);
+        const queues = await this.queuedData(groupId);
+
+        return {
+            processGroupId: groupId,
+            processGroupName: group.component.name,
+            createdByAgent: group.component.comments === FLOW_GROUP_COMMENT,
+            items: steps.map(s => s.item),
+            queues,
+            flowFilesQueued: queues.reduce((sum, q) => sum + q.flowFilesQueued, 0),
+            bytesQueued: queues.reduce((sum, q) => sum + q.bytesQueued, 0),
+            running: await this.runningComponents(groupId),
+        };
+    }
+
+    // Stop, empty the queues if allowed, then delete bottom-up. Without dropQueuedData the teardown
+    // stops short of deleting anything while FlowFiles are still queued
+    async teardown(plan: TeardownPlan, options: { dropQueuedData: boolean }): Promise<TeardownResult> {
+        const groupId = plan.processGroupId;
+        const result: TeardownResult = {
+            processGroupId: groupId,
+            processGroupName: plan.processGroupName,
+            success: false,
+            deleted: [],
+            flowFilesDropped: 0,
+            errors: [],
+        };
+
+        const stop = await this.controller.control('stop', groupId);
+        if (!stop.success) {
+            result.errors.push(...stop.failed.map(c => `Could not stop ${c.kind} ${c.name}: ${c.error}`));
+            return result;
+        }
+
+        // Sources may have queued more since the preview; look again now that everything is stopped
+        const queues = await this.queuedData(groupId);
+        if (queues.length > 0 && !options.dropQueuedData) {
+            const count = queues.reduce((sum, q) => sum + q.flowFilesQueued, 0);
+            result.errors.push(`${count} FlowFile(s) are still queued; nothing was deleted and the flow is left stopped`);
+            return result;
+        }
+        for (const queue of queues) {
+            try {
+                const drop = await this.client.emptyQueue(queue.connectionId);
+                result.flowFilesDropped += drop.droppedCount ?? queue.flowFilesQueued;
+            } catch (error: any) {
+                result.errors.push(`Could not empty ${queue.name}: ${describeError(error)}`);
+            }
+        }
+        if (result.errors.length > 0) {
+            return result;
+        }
+
+        // Revisions changed while stopping, so read the group again; later conflicts are
+        // resolved by the client's request policy
+        for (const step of await this.collectSteps(groupId)) {
+            try {
+                await step.remove(step.revision.version);
+                result.deleted.push(step.item);
+            } catch (error: any) {
+                result.errors.push(`Could not delete ${step.item.kind} ${step.item.name}: ${describeError(error)}`);
+            }
+        }
+
+        result.success = result.errors.length === 0;
+        return result;
+    }
+
+    // The parent group's connections to the group's ports first, then per group: connections (they
+    // pin their endpoints), child groups, the components, then controller services with dependants
+    // first; the group itself goes last
+    private async collectSteps(groupId: string): Promise<DeleteStep[]> {
+        const client = this.client;
+        const steps: DeleteStep[] = [];
+        const groupIds = new Set<string>();
+        const group = await client.getProcessGroup(groupId);
+
+        for (const entity of await this.boundaryConnections(groupId, group.component.parentGroupId!)) {
+            const connectionId = entity.component.id!;
+            steps.push({
+                item: { kind: 'connection', id: connectionId, name: connectionName(entity), group: '' },
+                revision: entity.revision,
+                remove: version => client.deleteConnection(connectionId, version),
+            });
+        }
+
+        const visit = async (id: string, path: string): Promise<void> => {
+            groupIds.add(id);
+            const flow = (await client.getProcessGroupFlow(id)).processGroupFlow.flow;
+            const item = (kind: TeardownKind, itemId: string, name: string): TeardownItem => ({ kind, id: itemId, name, group: path });
+
+            for (const entity of flow.connections || []) {
+                const connectionId = entity.component.id!;
+                steps.push({
+                    item: item('connection', connectionId, connectionName(entity)),
+                    revision: entity.revision,
+                    remove: version => client.deleteConnection(connectionId, version),
+                });
+            }
+
+            for (const child of flow.processGroups || []) {
+                const childId = child.component.id!;
+                await visit(childId, path ? `${path}/${child.component.name}` : child.component.name);
+                steps.push({
+                    item: { kind: 'process group', id: childId, name: child.component.name, group: path },
+                    revision: child.revision,
+                    remove: version => client.deleteProcessGroup(childId, version),
+                });
+            }
+
+            for (const entity of flow.processors || []) {
+                const processorId = entity.component.id!;
+                steps.push({
+                    item: item('processor', processorId, entity.component.name),
+                    revision: entity.revision,
+                    remove: version => client.deleteProcessor(processorId, version),
+                });
+            }
+
+            const ports = [
+                ...(flow.inputPorts || []).map(entity => ({ entity, portType: 'INPUT_PORT' as const })),
+                ...(flow.outputPorts || []).map(entity => ({ entity, portType: 'OUTPUT_PORT' as const })),
+            ];
+            for (const { entity, portType } of ports) {
+                const portId = entity.component.id!;
+                steps.push({
+                    item: item(portType === 'INPUT_PORT' ? 'input port' : 'output port', portId, entity.component.name),
+                    revision: entity.revision,
+                    remove: version => client.deletePort(portType, portId, version),
+                });
+            }
+
+            for (const entity of flow.funnels || []) {
+                const funnelId = entity.component.id!;
+                steps.push({
+                    item: item('funnel', funnelId, funnelId),
+                    revision: entity.revision,
+                    remove: version => client.deleteFunnel(funnelId, version),
+                });
+            }
+
+            for (const entity of flow.remoteProcessGroups || []) {
+                const remoteId = entity.component.id!;
+                steps.push({
+                    item: item('remote process group', remoteId, entity.component.name || entity.component.targetUris),
+                    revision: entity.revision,
+                    remove: version => client.deleteRemoteProcessGroup(remoteId, version),
+                });
+            }
+
+            for (const entity of flow.labels || []) {
+                const labelId = entity.component.id!;
+                steps.push({
+                    item: item('label', labelId, `"${entity.component.label.split('\n')[0]}"`),
+                    revision: entity.revision,
+                    remove: version => client.deleteLabel(labelId, version),
+                });
+            }
+
+            const services = (await client.getControllerServices(id)).map(entity => ({ entity }));
+            for (const { entity } of orderByDependency(services).reverse()) {
+                const serviceId = entity.component.id!;
+                steps.push({
+                    item: item('controller service', serviceId, entity.component.name),
+                    revision: entity.revision,
+                    remove: version => client.deleteControllerService(serviceId, version),
+                });
+            }
+        };
+
+        await visit(groupId, '');
+        steps.push({
+            item: { kind: 'process group', id: groupId, name: group.component.name, group: '' },
+            revision: group.revision,
+            remove: version => client.deleteProcessGroup(groupId, version),
+        });
+
+        const contextId = group.component.parameterContext?.id;
+        if (contextId) {
+            const context = await client.getParameterContext(contextId);
+            const bound = context.component.boundProcessGroups || [];
+            if (bound.every(g => groupIds.has(g.id))) {
+                steps.push({
+                    item: { kind: 'parameter context', id: contextId, name: context.component.name, group: '' },
+                    revision: context.revision,
+                    remove: version => client.deleteParameterContext(contextId, version),
+                });
+            }
+        }
+        return steps;
+    }
+
+    private async queuedData(groupId: string): Promise<QueuedData[]> {
+        const status = await this.client.getProcessGroupStatus(groupId);
+        const queues: QueuedData[] = [];
+
+        const visit = (snapshot: ProcessGroupStatusSnapshotDTO, path: string) => {
+            for (const { connectionStatusSnapshot: connection } of snapshot.connectionStatusSnapshots || []) {
+                if (connection.flowFilesQueued > 0) {
+                    queues.push(toQueuedData(connection, path));
+                }
+            }
+            for (const { processGroupStatusSnapshot: child } of snapshot.processGroupStatusSnapshots || []) {
+                visit(child, path ? `${path}/${child.name}` : child.name);
+            }
+        };
+
+        visit(status.processGroupStatus.aggregateSnapshot, '');
+
+        const group = await this.client.getProcessGroup(groupId);
+        const parentGroupId = group.component.parentGroupId!;
+        const boundary = new Set((await this.boundaryConnections(groupId, parentGroupId)).map(c => c.component.id!));
+        if (boundary.size > 0) {
+            const parent = await this.client.getProcessGroupStatus(parentGroupId, false);
+            for (const { connectionStatusSnapshot: connection } of parent.processGroupStatus.aggregateSnapshot.connectionStatusSnapshots || []) {
+                if (boundary.has(connection.id) && connection.flowFilesQueued > 0) {
+                    queues.push(toQueuedData(connection, ''));
+                }
+            }
+        }
+        return queues;
+    }
+
+    // Connections in the parent group leading to the group's input ports or from its output ports
+    private async boundaryConnections(groupId: string, parentGroupId: string): Promise<ConnectionEntity[]> {
+        const flow = (await this.client.getProcessGroupFlow(parentGroupId)).processGroupFlow.flow;
+        return (flow.connections || []).filter(c =>
+            c.component.source.groupId === groupId || c.component.destination.groupId === groupId);
+    }
+
+    private async runningComponents(groupId: string): Promise<TeardownItem[]> {
+        const summary = await this.controller.describe(groupId);
+        return summary
+            .filter(c => c.state === 'RUNNING' || c.state === 'ENABLED' || c.state === 'TRANSMITTING')
+            .map(c => ({ kind: c.kind, id: c.id, name: c.name, group: c.group }));
+    }
+}
+
+function connectionName(entity: ConnectionEntity): string {
+    return `${entity.component.source.name || entity.component.source.id} → `
+        + `${entity.component.destination.name || entity.component.destination.id}`;
+}
+
+function toQueuedData(connection: ConnectionStatusSnapshotDTO, group: string): QueuedData {
+    return {
+        connectionId: connection.id,
+        name: `${connection.sourceName} → ${connection.destinationName}`,
+        group,
+        flowFilesQueued: connection.flowFilesQueued,
+        bytesQueued: connection.bytesQueued,
+    };
+}
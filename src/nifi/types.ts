@@ -19,14 +19,29 @@ export interface BundleDTO {
 export interface ProcessorConfigDTO {
     properties: Record<string, string | null>;
     schedulingPeriod?: string;
-    schedulingStrategy?: string;
+    schedulingStrategy?: SchedulingStrategy;
+    concurrentlySchedulableTaskCount?: number;
+    runDurationMillis?: number;
     penaltyDuration?: string;
     yieldDuration?: string;
-    bulletinLevel?: string;
+    bulletinLevel?: BulletinLevel;
     autoTerminatedRelationships?: string[];
     comments?: string;
 }
 
+export type SchedulingStrategy = 'TIMER_DRIVEN' | 'CRON_DRIVEN';
+export type BulletinLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR' | 'NONE';
+
+// Scheduling part of a processor's config, as sent to NiFi
+export type SchedulingSettings = Pick<ProcessorConfigDTO,
+    | 'schedulingStrategy'
+    | 'schedulingPeriod'
+    | 'concurrentlySchedulableTaskCount'
+    | 'runDurationMillis'
+    | 'penaltyDuration'
+    | 'yieldDuration'
+    | 'bulletinLevel'>;
+
 export interface ProcessorDTO {
     id?: string;
     parentGroupId?: string;
@@ -77,12 +92,31 @@ export interface ConnectionDTO {
     backPressureObjectThreshold?: number;
     backPressureDataSizeThreshold?: string;
     flowFileExpiration?: string;
+    prioritizers?: string[];
+    loadBalanceStrategy?: LoadBalanceStrategy;
+    loadBalancePartitionAttribute?: string;
+    loadBalanceCompression?: LoadBalanceCompression;
 }
 
+export type LoadBalanceStrategy = 'DO_NOT_LOAD_BALANCE' | 'PARTITION_BY_ATTRIBUTE' | 'ROUND_ROBIN' | 'SINGLE_NODE';
+export type LoadBalanceCompression = 'DO_NOT_COMPRESS' | 'COMPRESS_ATTRIBUTES_ONLY' | 'COMPRESS_ATTRIBUTES_AND_CONTENT';
+
+// Queue settings of a connection, as sent to NiFi
+export type ConnectionSettings = Pick<ConnectionDTO,
+    | 'backPressureObjectThreshold'
+    | 'backPressureDataSizeThreshold'
+    | 'flowFileExpiration'
+    | 'prioritizers'
+    | 'loadBalanceStrategy'
+    | 'loadBalancePartitionAttribute'
+    | 'loadBalanceCompression'>;
+
 export interface ConnectionEntity {
     revision: RevisionDTO;
     id?: string;
     component: ConnectionDTO;
+    sourceId?: string;
+    destinationId?: string;
 }
 
 export interface ControllerServiceDTO {
@@ -103,13 +137,107 @@ export interface ControllerServiceEntity {
     component: ControllerServiceDTO;
 }
 
+export interface ProcessGroupDTO {
+    id?: string;
+    parentGroupId?: string;
+    position?: PositionDTO;
+    name: string;
+    comments?: string;
+    parameterContext?: { id: string };
+    runningCount?: number;
+    stoppedCount?: number;
+    invalidCount?: number;
+    disabledCount?: number;
+}
+
+export interface ProcessGroupEntity {
+    revision: RevisionDTO;
+    id?: string;
+    component: ProcessGroupDTO;
+}
+
+export type PortType = 'INPUT_PORT' | 'OUTPUT_PORT';
+
+export interface PortDTO {
+    id?: string;
+    parentGroupId?: string;
+    position?: PositionDTO;
+    name: string;
+    type?: PortType;
+    state?: string;
+    comments?: string;
+    validationErrors?: string[];
+}
+
+export interface PortEntity {
+    revision: RevisionDTO;
+    id?: string;
+    component: PortDTO;
+}
+
+export interface FunnelDTO {
+    id?: string;
+    parentGroupId?: string;
+    position?: PositionDTO;
+}
+
+export interface FunnelEntity {
+    revision: RevisionDTO;
+    id?: string;
+    component: FunnelDTO;
+}
+
+export interface LabelDTO {
+    id?: string;
+    parentGroupId?: string;
+    position?: PositionDTO;
+    label: string;
+    width?: number;
+    height?: number;
+    style?: Record<string, string>;
+}
+
+export interface LabelEntity {
+    revision: RevisionDTO;
+    id?: string;
+    component: LabelDTO;
+}
+
+export interface RemoteProcessGroupDTO {
+    id?: string;
+    parentGroupId?: string;
+    position?: PositionDTO;
+    name?: string;
+    targetUris: string;
+    transportProtocol?: 'RAW' | 'HTTP';
+    transmitting?: boolean;
+    validationErrors?: string[];
+    contents?: {
+        inputPorts?: Array<{ id: string; name: string; exists?: boolean }>;
+        outputPorts?: Array<{ id: string; name: string; exists?: boolean }>;
+    };
+}
+
+export interface RemoteProcessGroupEntity {
+    revision: RevisionDTO;
+    id?: string;
+    component: RemoteProcessGroupDTO;
+}
+
 export interface ProcessGroupFlowDTO {
     id: string;
     uri: string;
+    parentGroupId?: string;
     flow: {
+        processGroups?: ProcessGroupEntity[];
         processors: ProcessorEntity[];
         connections: ConnectionEntity[];
         controllerServices?: ControllerServiceEntity[];
+        inputPorts?: PortEntity[];
+        outputPorts?: PortEntity[];
+        funnels?: FunnelEntity[];
+        labels?: LabelEntity[];
+        remoteProcessGroups?: RemoteProcessGroupEntity[];
     };
 }
 
@@ -118,6 +246,17 @@ export interface ProcessGroupFlowEntity {
 }
 
 // Processor Types Catalog
+export interface PropertyDescriptorInfo {
+    name: string;
+    displayName?: string;
+    description?: string;
+    required: boolean;
+    sensitive: boolean;
+    defaultValue?: string;
+    allowableValues?: string[];
+    controllerServiceType?: string;
+}
+
 export interface ProcessorTypeInfo {
     type: string;
     bundle: BundleDTO;
@@ -126,4 +265,252 @@ export interface ProcessorTypeInfo {
     defaultProperties?: Record<string, string>;
     relationships: string[];
     description: string;
+    // Endpoint kind (e.g. "mqtt", "database") this processor reads from or writes to
+    sourceFor?: string;
+    destinationFor?: string;
+    // Settings for connections leaving this processor, on top of the catalog-wide defaults
+    connectionDefaults?: ConnectionSettings;
+    // Scheduling applied unless the flow definition asks for something else
+    defaultScheduling?: SchedulingSettings;
+    // Properties holding secrets, stored as sensitive parameters; discovered descriptors also mark them
+    sensitiveProperties?: string[];
+    // Properties that change between environments (hosts, URLs, paths), kept as parameters too
+    environmentProperties?: string[];
+    properties?: Record<string, PropertyDescriptorInfo>;
+    discovered?: boolean;
+}
+
+export interface ControllerServiceTypeInfo {
+    type: string;
+    bundle: BundleDTO;
+    requiredProperties: string[];
+    optionalProperties: string[];
+    defaultProperties?: Record<string, string>;
+    description: string;
+    // Properties holding secrets, stored as sensitive parameters; discovered descriptors also mark them
+    sensitiveProperties?: string[];
+    // Properties that change between environments (hosts, URLs, paths), kept as parameters too
+    environmentProperties?: string[];
+    properties?: Record<string, PropertyDescriptorInfo>;
+    discovered?: boolean;
+}
+
+// Entry of /flow/processor-types and /flow/controller-service-types
+export interface DocumentedTypeDTO {
+    type: string;
+    bundle: BundleDTO;
+    description?: string;
+    tags?: string[];
+}
+
+// Subset of the component definitions served by /flow/*-definition (NiFi 2.x)
+export interface PropertyDescriptorDefinition {
+    name: string;
+    displayName?: string;
+    description?: string;
+    required?: boolean;
+    sensitive?: boolean;
+    dynamic?: boolean;
+    defaultValue?: string;
+    allowableValues?: Array<{ value: string; displayName?: string; description?: string }>;
+    typeProvidedByValue?: { type: string; group?: string; artifact?: string; version?: string };
+}
+
+export interface ComponentDefinitionDTO {
+    type: string;
+    propertyDescriptors?: Record<string, PropertyDescriptorDefinition>;
+    supportedRelationships?: Array<{ name: string; description?: string }>;
+}
+
+// Status snapshots from /flow/process-groups/{id}/status; counters cover the last 5 minutes
+export interface ProcessorStatusSnapshotDTO {
+    id: string;
+    groupId: string;
+    name: string;
+    type: string;
+    runStatus: string;
+    flowFilesIn: number;
+    bytesIn: number;
+    flowFilesOut: number;
+    bytesOut: number;
+    taskCount: number;
+    activeThreadCount: number;
+    terminatedThreadCount?: number;
+}
+
+export interface ConnectionStatusSnapshotDTO {
+    id: string;
+    groupId: string;
+    name?: string;
+    sourceId: string;
+    sourceName: string;
+    destinationId: string;
+    destinationName: string;
+    flowFilesIn: number;
+    flowFilesOut: number;
+    flowFilesQueued: number;
+    bytesQueued: number;
+    percentUseCount?: number;
+    percentUseBytes?: number;
+}
+
+export interface ProcessGroupStatusSnapshotDTO {
+    id: string;
+    name: string;
+    flowFilesIn: number;
+    bytesIn: number;
+    flowFilesOut: number;
+    bytesOut: number;
+    flowFilesQueued: number;
+    bytesQueued: number;
+    activeThreadCount: number;
+    processorStatusSnapshots?: Array<{ id: string; processorStatusSnapshot: ProcessorStatusSnapshotDTO }>;
+    connectionStatusSnapshots?: Array<{ id: string; connectionStatusSnapshot: ConnectionStatusSnapshotDTO }>;
+    processGroupStatusSnapshots?: Array<{ id: string; processGroupStatusSnapshot: ProcessGroupStatusSnapshotDTO }>;
+}
+
+export interface ProcessGroupStatusEntity {
+    processGroupStatus: {
+        id: string;
+        name: string;
+        statsLastRefreshed?: string;
+        aggregateSnapshot: ProcessGroupStatusSnapshotDTO;
+    };
+}
+
+export interface BulletinDTO {
+    id: number;
+    category?: string;
+    groupId?: string;
+    sourceId?: string;
+    sourceName?: string;
+    sourceType?: string;
+    level: string;
+    message: string;
+    timestamp?: string;
+}
+
+export interface BulletinEntity {
+    id: number;
+    groupId?: string;
+    sourceId?: string;
+    timestamp?: string;
+    // Missing when the user may not read the source component
+    bulletin?: BulletinDTO;
+}
+
+// Parameter contexts hold values that processors reference as #{name}
+export interface ParameterDTO {
+    name: string;
+    description?: string;
+    sensitive: boolean;
+    // NiFi returns sensitive values masked
+    value: string | null;
+}
+
+export interface ParameterContextDTO {
+    id?: string;
+    name: string;
+    description?: string;
+    parameters: Array<{ parameter: ParameterDTO }>;
+    boundProcessGroups?: Array<{ id: string }>;
+}
+
+export interface ParameterContextEntity {
+    revision: RevisionDTO;
+    id?: string;
+    component: ParameterContextDTO;
+}
+
+// Changing a context restarts the components that use it, so NiFi applies updates asynchronously
+export interface ParameterContextUpdateRequestDTO {
+    requestId: string;
+    complete: boolean;
+    percentCompleted: number;
+    state?: string;
+    failureReason?: string;
+}
+
+// Emptying a queue (/flowfile-queues/{id}/drop-requests) also runs asynchronously
+export interface DropRequestDTO {
+    id: string;
+    finished: boolean;
+    percentCompleted: number;
+    // e.g. "2 / 1.2 KB", counted when the request was submitted
+    original?: string;
+    originalCount?: number;
+    droppedCount?: number;
+    dropped?: string;
+    state?: string;
+    failureReason?: string;
+}
+
+// Provenance queries (/provenance) and lineage (/provenance/lineage) run asynchronously:
+// submit, poll until finished, then delete
+export interface ProvenanceSearchTerm {
+    value: string;
+    inverse?: boolean;
+}
+
+export interface ProvenanceRequestDTO {
+    maxResults: number;
+    // Keyed by searchable field, e.g. ComponentID, FlowFileUUID, EventType
+    searchTerms?: Record<string, ProvenanceSearchTerm>;
+    startDate?: string;
+    endDate?: string;
+}
+
+export interface ProvenanceEventDTO {
+    id: string;
+    eventId: number;
+    eventTime: string;
+    eventType: string;
+    flowFileUuid: string;
+    fileSize?: string;
+    fileSizeBytes?: number;
+    groupId?: string;
+    componentId: string;
+    componentType: string;
+    componentName: string;
+    attributes?: Array<{ name: string; value?: string; previousValue?: string }>;
+    parentUuids?: string[];
+    childUuids?: string[];
+    transitUri?: string;
+    relationship?: string;
+    details?: string;
+    inputContentAvailable?: boolean;
+    outputContentAvailable?: boolean;
+}
+
+export interface ProvenanceDTO {
+    id: string;
+    finished: boolean;
+    percentCompleted: number;
+    request?: ProvenanceRequestDTO;
+    results?: {
+        provenanceEvents: ProvenanceEventDTO[];
+        totalCount?: number;
+        errors?: string[];
+    };
+}
+
+export interface LineageNodeDTO {
+    id: string;
+    flowFileUuid: string;
+    type: 'EVENT' | 'FLOWFILE';
+    eventType?: string;
+    millis?: number;
+    parentUuids?: string[];
+    childUuids?: string[];
+}
+
+export interface LineageDTO {
+    id: string;
+    finished: boolean;
+    percentCompleted: number;
+    results?: {
+        nodes: LineageNodeDTO[];
+        links: Array<{ sourceId: string; targetId: string; flowFileUuid: string }>;
+        errors?: string[];
+    };
 }
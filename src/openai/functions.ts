@@ -1,204 +1,630 @@
 import { ChatCompletionTool } from 'openai/resources/chat/completions';
+import {
+    processorCatalog,
+    controllerServiceCatalog,
+    curatedProcessorNames,
+    curatedControllerServiceNames,
+    prioritizerTypes,
+} from '../processors/catalog.js';
 
 // OpenAI function definitions for NiFi flow creation
 
-export const nifiFunctions: ChatCompletionTool[] = [
-    {
-        type: 'function',
-        function: {
-            name: 'analyze_etl_request',
-            description: 'Analyze the user ETL request and identify source/destination types, required processors, and any missing configuration parameters that need to be collected from the user.',
-            parameters: {
-                type: 'object',
-                properties: {
-                    source_type: {
-                        type: 'string',
-                        enum: ['opcua', 'mqtt', 'database', 'file', 'http', 'generate'],
-                        description: 'The type of data source',
-                    },
-                    destination_type: {
-                        type: 'string',
-                        enum: ['mqtt', 'database', 'file', 'http', 'log'],
-                        description: 'The type of data destination',
-                    },
-                    transformations: {
-                        type: 'array',
-                        items: { type: 'string' },
-                        description: 'List of transformation operations needed (e.g., "convert to json", "filter", "transform attributes")',
-                    },
-                    processors_needed: {
-                        type: 'array',
-                        items: {
-                            type: 'object',
-                            properties: {
-                                name: { type: 'string', description: 'Processor name from catalog (e.g., PublishMQTT, ExecuteSQL)' },
-                                purpose: { type: 'string', description: 'Brief description of what this processor does in the flow' },
+// Processor scheduling, shared by the tools that create or change processors
+const schedulingSchema = {
+    type: 'object',
+    properties: {
+        strategy: {
+            type: 'string',
+            enum: ['TIMER_DRIVEN', 'CRON_DRIVEN'],
+            description: 'TIMER_DRIVEN runs every period; CRON_DRIVEN runs on a Quartz cron schedule',
+        },
+        period: {
+            type: 'string',
+            description: 'Run interval such as "5 min" (TIMER_DRIVEN) or a Quartz cron expression such as "0 0 2 * * ?" (CRON_DRIVEN)',
+        },
+        concurrent_tasks: { type: 'number', description: 'Number of concurrent tasks (default 1)' },
+        run_duration_millis: {
+            type: 'number',
+            enum: [0, 25, 50, 100, 250, 500, 1000, 2000],
+            description: 'How long each task keeps processing before yielding; higher favours throughput over latency',
+        },
+        penalty_duration: { type: 'string', description: 'How long a penalized FlowFile waits (e.g., "30 sec")' },
+        yield_duration: { type: 'string', description: 'How long the processor backs off when it has nothing to do (e.g., "1 sec")' },
+        bulletin_level: { type: 'string', enum: ['DEBUG', 'INFO', 'WARN', 'ERROR', 'NONE'], description: 'Lowest level reported as a bulletin' },
+    },
+    description: 'When and how the processor runs. Omit to use the catalog default for the type.',
+};
+
+// Kinds of connection endpoint, see FlowComponentKind
+const endpointKindSchema = {
+    type: 'string',
+    enum: ['processor', 'input_port', 'output_port', 'funnel', 'remote_input_port', 'remote_output_port'],
+};
+
+// Rebuilt on every request so the allowed values always match the current catalog
+export function buildNifiFunctions(): ChatCompletionTool[] {
+    const processorTypes = Object.keys(processorCatalog);
+    const serviceTypes = Object.keys(controllerServiceCatalog);
+    const sourceTypes = endpointsFor('source');
+    const destinationTypes = endpointsFor('destination');
+
+    return [
+        {
+            type: 'function',
+            function: {
+                name: 'analyze_etl_request',
+                description: 'Analyze the user ETL request and identify source/destination types, required processors, and any missing configuration parameters that need to be collected from the user.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        source_type: {
+                            type: 'string',
+                            ...enumOf(sourceTypes),
+                            description: 'The type of data source',
+                        },
+                        destination_type: {
+                            type: 'string',
+                            ...enumOf(destinationTypes),
+                            description: 'The type of data destination',
+                        },
+                        transformations: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description: 'List of transformation operations needed (e.g., "convert to json", "filter", "transform attributes")',
+                        },
+                        processors_needed: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    name: { type: 'string', ...enumOf(processorTypes), description: 'Processor name from catalog (e.g., PublishMQTT, ExecuteSQL)' },
+                                    purpose: { type: 'string', description: 'Brief description of what this processor does in the flow' },
+                                },
+                                required: ['name', 'purpose'],
                             },
-                            required: ['name', 'purpose'],
+                            description: 'Ordered list of processors needed for this ETL',
                         },
-                        description: 'Ordered list of processors needed for this ETL',
-                    },
-                    missing_parameters: {
-                        type: 'array',
-                        items: {
-                            type: 'object',
-                            properties: {
-                                param_name: { type: 'string', description: 'Parameter name (e.g., mqtt_broker_uri)' },
-                                prompt: { type: 'string', description: 'Human-friendly question to ask the user' },
-                                example: { type: 'string', description: 'Example value to show the user' },
-                                required: { type: 'boolean', description: 'Whether this parameter is required' },
+                        missing_parameters: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    param_name: { type: 'string', description: 'Parameter name (e.g., mqtt_broker_uri)' },
+                                    prompt: { type: 'string', description: 'Human-friendly question to ask the user' },
+                                    example: { type: 'string', description: 'Example value to show the user' },
+                                    required: { type: 'boolean', description: 'Whether this parameter is required' },
+                                    type: {
+                                        type: 'string',
+                                        enum: ['string', 'uri', 'host_port', 'integer', 'enum', 'path', 'sql', 'secret', 'boolean'],
+                                        description: 'How the answer is validated: uri (e.g. tcp://broker:1883, jdbc:postgresql://db:5432/app), host_port, integer, enum (one of allowed_values), path (absolute, on the NiFi host), sql, boolean, or secret for passwords, tokens and keys (typed hidden; you receive a placeholder). Default: string',
+                                    },
+                                    default: { type: 'string', description: 'Value used when the user just presses Enter; never set one for secrets' },
+                                    allowed_values: { type: 'array', items: { type: 'string' }, description: 'Accepted answers for enum parameters' },
+                                },
+                                required: ['param_name', 'prompt', 'required'],
                             },
-                            required: ['param_name', 'prompt', 'required'],
+                            description: 'Parameters that need to be collected from the user',
+                        },
+                        flow_name: {
+                            type: 'string',
+                            description: 'Suggested name for this flow',
+                        },
+                        flow_description: {
+                            type: 'string',
+                            description: 'Brief description of what this flow does',
                         },
-                        description: 'Parameters that need to be collected from the user',
-                    },
-                    flow_name: {
-                        type: 'string',
-                        description: 'Suggested name for this flow',
-                    },
-                    flow_description: {
-                        type: 'string',
-                        description: 'Brief description of what this flow does',
                     },
+                    required: ['source_type', 'destination_type', 'processors_needed', 'missing_parameters', 'flow_name'],
                 },
-                required: ['source_type', 'destination_type', 'processors_needed', 'missing_parameters', 'flow_name'],
             },
         },
-    },
-    {
-        type: 'function',
-        function: {
-            name: 'create_nifi_flow',
-            description: 'Create the NiFi flow with all collected parameters. Call this after all required parameters have been gathered.',
-            parameters: {
-                type: 'object',
-                properties: {
-                    flow_name: {
-                        type: 'string',
-                        description: 'Name for the flow/process group',
-                    },
-                    processors: {
-                        type: 'array',
-                        items: {
-                            type: 'object',
-                            properties: {
-                                name: { type: 'string', description: 'Display name for the processor' },
-                                type: { type: 'string', description: 'Processor type from catalog (e.g., PublishMQTT)' },
+        {
+            type: 'function',
+            function: {
+                name: 'create_nifi_flow',
+                description: 'Create the NiFi flow with all collected parameters. Call this after all required parameters have been gathered.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        flow_name: {
+                            type: 'string',
+                            description: 'Name for the flow/process group',
+                        },
+                        target_group: {
+                            type: 'string',
+                            description: 'ID of an existing parent process group to create the flow in (defaults to the root group)',
+                        },
+                        unconnected_relationships: {
+                            type: 'string',
+                            enum: ['auto-terminate', 'error-branch', 'report'],
+                            description: 'How to handle relationships left unconnected: auto-terminate them, route failures to a generated LogAttribute error branch, or only report them. Omit to use the configured default.',
+                        },
+                        processors: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
                                 properties: {
-                                    type: 'object',
-                                    additionalProperties: { type: 'string' },
-                                    description: 'Processor configuration properties',
+                                    name: { type: 'string', description: 'Display name for the processor' },
+                                    type: { type: 'string', ...enumOf(processorTypes), description: 'Processor type from catalog (e.g., PublishMQTT)' },
+                                    properties: {
+                                        type: 'object',
+                                        additionalProperties: { type: 'string' },
+                                        description: 'Processor configuration properties',
+                                    },
+                                    auto_terminate: {
+                                        type: 'array',
+                                        items: { type: 'string' },
+                                        description: 'Relationships to auto-terminate',
+                                    },
+                                    scheduling: schedulingSchema,
                                 },
-                                auto_terminate: {
-                                    type: 'array',
-                                    items: { type: 'string' },
-                                    description: 'Relationships to auto-terminate',
+                                required: ['name', 'type', 'properties'],
+                            },
+                            description: 'Ordered list of processors with their configurations',
+                        },
+                        input_ports: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    name: { type: 'string', description: 'Port name, unique within the flow' },
+                                    comments: { type: 'string' },
                                 },
+                                required: ['name'],
                             },
-                            required: ['name', 'type', 'properties'],
+                            description: 'Ports that receive data from other process groups on the parent canvas',
                         },
-                        description: 'Ordered list of processors with their configurations',
-                    },
-                    connections: {
-                        type: 'array',
-                        items: {
-                            type: 'object',
-                            properties: {
-                                from_index: { type: 'number', description: 'Index of source processor in the processors array' },
-                                to_index: { type: 'number', description: 'Index of destination processor in the processors array' },
-                                relationships: {
-                                    type: 'array',
-                                    items: { type: 'string' },
-                                    description: 'Relationships to connect (e.g., ["success"])',
+                        output_ports: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    name: { type: 'string', description: 'Port name, unique within the flow' },
+                                    comments: { type: 'string' },
                                 },
+                                required: ['name'],
                             },
-                            required: ['from_index', 'to_index', 'relationships'],
+                            description: 'Ports that hand data to other process groups on the parent canvas',
                         },
-                        description: 'Connections between processors',
-                    },
-                    controller_services: {
-                        type: 'array',
-                        items: {
-                            type: 'object',
-                            properties: {
-                                name: { type: 'string' },
-                                type: { type: 'string', description: 'Controller service type from catalog' },
+                        funnels: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    name: { type: 'string', description: 'For your reference only; NiFi funnels have no name' },
+                                },
+                            },
+                            description: 'Funnels that merge several connections into one queue, e.g. to combine error paths',
+                        },
+                        labels: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
                                 properties: {
-                                    type: 'object',
-                                    additionalProperties: { type: 'string' },
+                                    text: { type: 'string', description: 'Text shown on the canvas' },
+                                    processor_indexes: {
+                                        type: 'array',
+                                        items: { type: 'number' },
+                                        description: 'Processors this label documents; it is drawn beside them',
+                                    },
                                 },
-                                referenced_by: {
-                                    type: 'array',
-                                    items: {
+                                required: ['text'],
+                            },
+                            description: 'Canvas labels that document sections of the flow',
+                        },
+                        remote_process_groups: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    name: { type: 'string', description: 'For your reference in connection descriptions' },
+                                    target_uris: { type: 'string', description: 'Remote NiFi URL(s), comma-separated (e.g., https://nifi-b:8443/nifi)' },
+                                    transport_protocol: { type: 'string', enum: ['HTTP', 'RAW'], description: 'Site-to-site transport (default HTTP)' },
+                                    comments: { type: 'string' },
+                                },
+                                required: ['target_uris'],
+                            },
+                            description: 'Site-to-site links to other NiFi instances',
+                        },
+                        connections: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    from_type: { ...endpointKindSchema, description: 'Kind of the source (default processor)' },
+                                    from_index: { type: 'number', description: 'Index of the source in its array (processors, input_ports, funnels or remote_process_groups)' },
+                                    from_remote_port: { type: 'string', description: 'Output port name on the remote NiFi (from_type remote_output_port only)' },
+                                    to_type: { ...endpointKindSchema, description: 'Kind of the destination (default processor)' },
+                                    to_index: { type: 'number', description: 'Index of the destination in its array (processors, output_ports, funnels or remote_process_groups)' },
+                                    to_remote_port: { type: 'string', description: 'Input port name on the remote NiFi (to_type remote_input_port only)' },
+                                    relationships: {
+                                        type: 'array',
+                                        items: { type: 'string' },
+                                        description: 'Relationships to connect (e.g., ["success"]); use [] when the source is not a processor',
+                                    },
+                                    back_pressure_object_threshold: {
+                                        type: 'number',
+                                        description: 'Queued FlowFile count at which the source is paused (e.g., 10000)',
+                                    },
+                                    back_pressure_data_size_threshold: {
+                                        type: 'string',
+                                        description: 'Queued data size at which the source is paused (e.g., "1 GB")',
+                                    },
+                                    flow_file_expiration: {
+                                        type: 'string',
+                                        description: 'Age after which queued FlowFiles are dropped; "0 sec" never expires (e.g., "10 min")',
+                                    },
+                                    prioritizers: {
+                                        type: 'array',
+                                        items: { type: 'string', enum: Object.keys(prioritizerTypes) },
+                                        description: 'Queue ordering, highest priority first',
+                                    },
+                                    load_balance_strategy: {
+                                        type: 'string',
+                                        enum: ['DO_NOT_LOAD_BALANCE', 'PARTITION_BY_ATTRIBUTE', 'ROUND_ROBIN', 'SINGLE_NODE'],
+                                        description: 'How a clustered NiFi spreads this queue across nodes',
+                                    },
+                                    load_balance_partition_attribute: {
+                                        type: 'string',
+                                        description: 'FlowFile attribute to partition by (PARTITION_BY_ATTRIBUTE only)',
+                                    },
+                                    load_balance_compression: {
+                                        type: 'string',
+                                        enum: ['DO_NOT_COMPRESS', 'COMPRESS_ATTRIBUTES_ONLY', 'COMPRESS_ATTRIBUTES_AND_CONTENT'],
+                                        description: 'Compression between cluster nodes when load balancing',
+                                    },
+                                },
+                                required: ['from_index', 'to_index', 'relationships'],
+                            },
+                            description: 'Connections between processors',
+                        },
+                        controller_services: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    name: { type: 'string' },
+                                    type: { type: 'string', ...enumOf(serviceTypes), description: 'Controller service type from catalog' },
+                                    properties: {
                                         type: 'object',
-                                        properties: {
-                                            processor_index: { type: 'number' },
-                                            property_name: { type: 'string' },
+                                        additionalProperties: { type: 'string' },
+                                    },
+                                    referenced_by: {
+                                        type: 'array',
+                                        items: {
+                                            type: 'object',
+                                            properties: {
+                                                processor_index: { type: 'number' },
+                                                property_name: { type: 'string' },
+                                            },
                                         },
+                                        description: 'Which processors reference this service and via which property',
                                     },
-                                    description: 'Which processors reference this service and via which property',
                                 },
+                                required: ['name', 'type', 'properties'],
                             },
-                            required: ['name', 'type', 'properties'],
+                            description: 'Controller services needed by the processors',
                         },
-                        description: 'Controller services needed by the processors',
                     },
+                    required: ['flow_name', 'processors', 'connections'],
                 },
-                required: ['flow_name', 'processors', 'connections'],
             },
         },
-    },
-    {
+        {
+            type: 'function',
+            function: {
+                name: 'update_processor',
+                description: 'Change the name, properties, auto-terminated relationships or scheduling of a processor in a flow that is already deployed.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        process_group: { type: 'string', description: 'Name or ID of the deployed flow (process group)' },
+                        processor: { type: 'string', description: 'Name, type (e.g., PublishMQTT) or ID of the processor to change' },
+                        name: { type: 'string', description: 'New display name for the processor' },
+                        properties: {
+                            type: 'object',
+                            additionalProperties: { type: ['string', 'null'] },
+                            description: 'Properties to change, using exact NiFi property names. Use null to clear a property.',
+                        },
+                        auto_terminate: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description: 'Full replacement list of relationships to auto-terminate',
+                        },
+                        scheduling: { ...schedulingSchema, description: 'Scheduling fields to change; omitted fields stay as they are' },
+                    },
+                    required: ['process_group', 'processor'],
+                },
+            },
+        },
+        {
+            type: 'function',
+            function: {
+                name: 'add_processor',
+                description: 'Add a processor to a deployed flow. When both upstream and downstream are given and already connected, the new processor is inserted between them.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        process_group: { type: 'string', description: 'Name or ID of the deployed flow (process group)' },
+                        name: { type: 'string', description: 'Display name for the new processor' },
+                        type: { type: 'string', ...enumOf(processorTypes), description: 'Processor type from catalog (e.g., LogAttribute)' },
+                        properties: {
+                            type: 'object',
+                            additionalProperties: { type: 'string' },
+                            description: 'Processor configuration properties',
+                        },
+                        auto_terminate: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description: 'Relationships of the new processor to auto-terminate',
+                        },
+                        scheduling: schedulingSchema,
+                        upstream: {
+                            type: 'object',
+                            properties: {
+                                processor: { type: 'string', description: 'Existing processor that feeds the new one' },
+                                relationships: { type: 'array', items: { type: 'string' } },
+                            },
+                            required: ['processor', 'relationships'],
+                        },
+                        downstream: {
+                            type: 'object',
+                            properties: {
+                                processor: { type: 'string', description: 'Existing processor the new one feeds' },
+                                relationships: { type: 'array', items: { type: 'string' }, description: 'Relationships of the new processor to connect' },
+                            },
+                            required: ['processor', 'relationships'],
+                        },
+                    },
+                    required: ['process_group', 'name', 'type'],
+                },
+            },
+        },
+        {
+            type: 'function',
+            function: {
+                name: 'remove_processor',
+                description: 'Remove a processor and its connections from a deployed flow.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        process_group: { type: 'string', description: 'Name or ID of the deployed flow (process group)' },
+                        processor: { type: 'string', description: 'Name, type or ID of the processor to remove' },
+                        bridge: {
+                            type: 'boolean',
+                            description: 'Reconnect the upstream processors to the downstream ones (default true)',
+                        },
+                    },
+                    required: ['process_group', 'processor'],
+                },
+            },
+        },
+        {
+            type: 'function',
+            function: {
+                name: 'rewire_connection',
+                description: 'Change the destination or the relationships of an existing connection in a deployed flow.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        process_group: { type: 'string', description: 'Name or ID of the deployed flow (process group)' },
+                        from: { type: 'string', description: 'Source processor of the existing connection' },
+                        to: { type: 'string', description: 'Current destination processor of the connection' },
+                        new_to: { type: 'string', description: 'New destination processor' },
+                        relationships: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description: 'New list of relationships for the connection',
+                        },
+                    },
+                    required: ['process_group', 'from', 'to'],
+                },
+            },
+        },
+        {
+            type: 'function',
+            function: {
+                name: 'get_flow_status',
+                description: 'Check the health of deployed flows: queue depths, FlowFiles in/out over the last 5 minutes, active threads, run states and recent error bulletins. Read-only.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        process_group: { type: 'string', description: 'Name, path or ID of the process group; omit for the flows created by the agent' },
+                    },
+                },
+            },
+        },
+        {
+            type: 'function',
+            function: {
+                name: 'trace_provenance',
+                description: 'Trace FlowFiles through a deployed flow using NiFi provenance: the events each one went through, where it ended up (delivered, dropped, routed to failure, expired), its attributes and a content snippet. Read-only.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        process_group: { type: 'string', description: 'Name or ID of the process group containing the processor; without it a name or type must match one processor across all groups' },
+                        processor: { type: 'string', description: 'Processor whose recent FlowFiles to trace (name, type or ID)' },
+                        flowfile_uuid: { type: 'string', description: 'UUID of one FlowFile to trace' },
+                        max_events: { type: 'number', description: 'How many recent events at the processor to look at (default 20)' },
+                    },
+                },
+            },
+        },
+        flowControlFunction('start_flow', 'Start a deployed flow: enable its controller services in dependency order, then start its processors, ports and remote process groups.'),
+        flowControlFunction('stop_flow', 'Stop a deployed flow: stop its processors, ports and remote process groups, then disable its controller services. Queued data is kept.'),
+        flowControlFunction('restart_flow', 'Stop a deployed flow completely, then start it again.'),
+        flowControlFunction('delete_flow', 'Permanently delete a flow: stop it, empty its queues, then delete its connections, components, controller services and the process group. The user sees exactly what will be removed and confirms first, separately for any queued data.'),
+        {
+            type: 'function',
+            function: {
+                name: 'list_process_groups',
+                description: 'List every process group on the connected NiFi instance with its path and component counts. Read-only.',
+                parameters: {
+                    type: 'object',
+                    properties: {},
+                },
+            },
+        },
+        {
+            type: 'function',
+            function: {
+                name: 'describe_process_group',
+                description: 'Describe the processors (with configured properties), connections, controller services and child groups of a process group. Read-only.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        process_group: { type: 'string', description: 'Name, path or ID of the process group' },
+                    },
+                    required: ['process_group'],
+                },
+            },
+        },
+        {
+            type: 'function',
+            function: {
+                name: 'get_processor_config',
+                description: 'Get the full live configuration of one processor, including scheduling and validation errors. Read-only.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        processor: { type: 'string', description: 'Processor ID, or its name/type when process_group is given' },
+                        process_group: { type: 'string', description: 'Name or ID of the process group containing the processor' },
+                    },
+                    required: ['processor'],
+                },
+            },
+        },
+        {
+            type: 'function',
+            function: {
+                name: 'request_clarification',
+                description: 'Ask the user for clarification when the request is ambiguous or more information is needed to design the flow.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        question: {
+                            type: 'string',
+                            description: 'The clarifying question to ask the user',
+                        },
+                        options: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description: 'Optional list of choices to present to the user',
+                        },
+                        secret: {
+                            type: 'boolean',
+                            description: 'True when the answer is a password, token or key; it is read hidden and you receive a placeholder',
+                        },
+                    },
+                    required: ['question'],
+                },
+            },
+        },
+    ];
+}
+
+// Endpoint kinds offered by catalog processors, e.g. ['database', 'file', 'mqtt']
+function endpointsFor(role: 'source' | 'destination'): string[] {
+    const endpoints = new Set<string>();
+    for (const info of Object.values(processorCatalog)) {
+        const endpoint = role === 'source' ? info.sourceFor : info.destinationFor;
+        if (endpoint) {
+            endpoints.add(endpoint);
+        }
+    }
+    return [...endpoints].sort();
+}
+
+// Tool taking just a process group, for the run-state and teardown commands
+function flowControlFunction(name: string, description: string): ChatCompletionTool {
+    return {
         type: 'function',
         function: {
-            name: 'request_clarification',
-            description: 'Ask the user for clarification when the request is ambiguous or more information is needed to design the flow.',
+            name,
+            description,
             parameters: {
                 type: 'object',
                 properties: {
-                    question: {
-                        type: 'string',
-                        description: 'The clarifying question to ask the user',
-                    },
-                    options: {
-                        type: 'array',
-                        items: { type: 'string' },
-                        description: 'Optional list of choices to present to the user',
-                    },
+                    process_group: { type: 'string', description: 'Name, path or ID of the process group; nested groups are included' },
                 },
-                required: ['question'],
+                required: ['process_group'],
             },
         },
-    },
-];
+    };
+}
+
+// JSON schema enum, omitted when the catalog has nothing to offer
+function enumOf(values: string[]): { enum?: string[] } {
+    return values.length > 0 ? { enum: values } : {};
+}
+
+function describeProcessors(): string {
+    const lines: string[] = [];
+    const others: string[] = [];
+    for (const [name, info] of Object.entries(processorCatalog)) {
+        if (!curatedProcessorNames.has(name)) {
+            others.push(name);
+            continue;
+        }
+        const required = info.requiredProperties.length > 0
+            ? ` (requires: ${info.requiredProperties.join(', ')})`
+            : '';
+        lines.push(`- ${name}: ${info.description}${required}`);
+    }
+    if (others.length > 0) {
+        lines.push('', `Also installed (use only when none of the above fits): ${others.sort().join(', ')}`);
+    }
+    return lines.join('\n');
+}
 
-// System prompt for the NiFi agent
-export const systemPrompt = `You are a NiFi flow design expert. Your role is to help users create Apache NiFi data flows from natural language descriptions.
+function describeControllerServices(): string {
+    const lines: string[] = [];
+    const others: string[] = [];
+    for (const [name, info] of Object.entries(controllerServiceCatalog)) {
+        if (!curatedControllerServiceNames.has(name)) {
+            others.push(name);
+            continue;
+        }
+        lines.push(`- ${name}: ${info.description}`);
+    }
+    if (others.length > 0) {
+        lines.push('', `Also installed: ${others.sort().join(', ')}`);
+    }
+    return lines.join('\n');
+}
+
+// System prompt for the NiFi agent, generated from the current catalog
+export function buildSystemPrompt(): string {
+    return `You are a NiFi flow design expert. Your role is to help users create Apache NiFi data flows from natural language descriptions.
 
 AVAILABLE PROCESSORS:
-- PublishMQTT: Publishes data to MQTT broker (requires: Broker URI, Topic)
-- ConsumeMQTT: Subscribes to MQTT topics (requires: Broker URI, Topic Filter)
-- ExecuteSQL: Executes SQL queries (requires: Database Connection Pooling Service, SQL select query)
-- ExecuteSQLRecord: Executes SQL and writes with Record Writer
-- ConvertRecord: Converts between formats (requires: Record Reader, Record Writer)
-- UpdateAttribute: Adds/modifies FlowFile attributes
-- JoltTransformJSON: Transforms JSON using JOLT
-- GetFile: Reads files from directory (requires: Input Directory)
-- PutFile: Writes to files (requires: Directory)
-- InvokeHTTP: Makes HTTP requests (requires: HTTP URL, HTTP Method)
-- GenerateFlowFile: Generates test data
-- LogAttribute: Logs attributes for debugging
-- LogMessage: Logs custom messages
+${describeProcessors()}
 
 AVAILABLE CONTROLLER SERVICES:
-- DBCPConnectionPool: JDBC database connection pool
-- JsonTreeReader / JsonRecordSetWriter: JSON record handling
-- AvroReader / AvroRecordSetWriter: Avro record handling
+${describeControllerServices()}
 
 WORKFLOW:
 1. When user describes an ETL, call analyze_etl_request to identify components and missing parameters
-2. The system will collect missing parameters from the user
+2. The system collects the missing parameters from the user and returns them as the tool result
 3. Once all parameters are collected, call create_nifi_flow with the complete configuration
+4. Every tool returns its real result. If a build or edit fails, read the errors, fix the definition and try again, or explain the problem to the user
+
+INSPECTING THE LIVE CANVAS:
+- Use list_process_groups, describe_process_group and get_processor_config to answer questions about what is deployed
+- Base answers on the data these tools return, never on assumptions
+- Look up process group and processor names before editing a flow
+
+EDITING DEPLOYED FLOWS:
+- Use update_processor, add_processor, remove_processor and rewire_connection to change a flow that already exists
+- Refer to the flow by its process group name and to processors by name or type
+- The user sees a before/after diff and confirms before anything is applied
+
+RUNNING FLOWS:
+- New flows are created stopped; use start_flow, stop_flow and restart_flow when the user asks to run or halt one
+- Report components that failed to start together with their errors
+- When data went missing ("why didn't my message reach the broker?"), use trace_provenance on the source processor and point at the processor where FlowFiles were dropped, routed to failure or expired
+- Use delete_flow only when the user asks to delete or remove a whole flow, never to fix one; if the user keeps the queued data, the flow is left stopped and nothing is deleted
+- Use get_flow_status when the user asks how a flow is doing; summarise the findings in plain language, leading with failures and growing queues (e.g., "PublishMQTT is failing with connection refused; 12k FlowFiles queued on success")
 
 IMPORTANT:
 - Always identify ALL required parameters for processors
@@ -206,7 +632,81 @@ IMPORTANT:
 - Include helpful examples in parameter prompts
 - For MQTT: need Broker URI (e.g., tcp://localhost:1883) and Topic
 - For databases: need Connection URL, Driver, Username, Password, and SQL query
+- Give every missing parameter a type, a default when there is a sensible one (e.g. MQTT QoS "1"), and allowed_values for fixed choices
+- Passwords, tokens and keys get type "secret"; you receive them as placeholders like {{secret:db_password}}. Use placeholders verbatim as property values, and never ask for a secret in plain chat
 - Design efficient flows with minimal processors
 - Connect processors in logical order
+- Translate timing in the request into processor "scheduling": "poll every 5 minutes" → {"strategy": "TIMER_DRIVEN", "period": "5 min"}; "run at 2am daily" → {"strategy": "CRON_DRIVEN", "period": "0 0 2 * * ?"} (Quartz cron, seconds first); "4 concurrent tasks" → {"concurrent_tasks": 4}
+- Source processors (ExecuteSQL, GetFile, GenerateFlowFile, InvokeHTTP without upstream) need a sensible period; never leave a database or API source polling at "0 sec"
+- Add input/output ports only when the flow should be chained to other process groups; add a remote process group only for sending to or receiving from another NiFi (site-to-site)
+- To merge several error paths, connect them to a funnel and the funnel to one handler
+- Use labels to document distinct sections of larger flows
+- Connection queue settings (back pressure, expiration, prioritizers, load balancing) have sensible defaults; only set them when the user asks, e.g. for high-volume or clustered flows
+- Only use processor and controller service types listed above
 
 When the user provides a vague request, use request_clarification to ask for more details.`;
+}
+
+// Returned with the collected parameters so the model maps them onto exact property names
+export const flowCreationGuidance = `All required parameters have been collected. Create the NiFi flow now.
+
+CRITICAL: When calling create_nifi_flow, you MUST:
+1. Map parameter values to EXACT NiFi property names in each processor's "properties" object
+2. For PublishMQTT, use these exact property names:
+   - "Broker URI" (not "broker_uri" or "mqtt_broker")
+   - "Topic" (not "topic" or "mqtt_topic")
+   - "Quality of Service" (optional, default is "1")
+3. For ConsumeMQTT, use:
+   - "Broker URI"
+   - "Topic Filter"
+4. For GenerateFlowFile, use:
+   - "Custom Text" for the message content
+   - "Data Format" set to "Text"
+5. For ExecuteSQL, use:
+   - "Database Connection Pooling Service"
+   - "SQL select query"
+
+Example of correct processor config:
+{
+  "name": "Publish to MQTT",
+  "type": "PublishMQTT",
+  "properties": {
+    "Broker URI": "tcp://localhost:1883",
+    "Topic": "my/topic",
+    "Quality of Service": "1"
+  }
+}
+
+Now call create_nifi_flow with the full configuration, ensuring ALL collected parameter values are properly mapped to processor properties.`;
+
+// Forced tool used by the repair loop to get property patches for invalid components
+export const repairFunction: ChatCompletionTool = {
+    type: 'function',
+    function: {
+        name: 'propose_property_patches',
+        description: 'Propose property changes that make the invalid NiFi components valid.',
+        parameters: {
+            type: 'object',
+            properties: {
+                patches: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            component_id: { type: 'string', description: 'ID of the invalid processor or controller service' },
+                            properties: {
+                                type: 'object',
+                                additionalProperties: { type: ['string', 'null'] },
+                                description: 'Properties to set, using exact NiFi property names. Use null to clear a property.',
+                            },
+                            reason: { type: 'string', description: 'Which validation error this fixes and how' },
+                        },
+                        required: ['component_id', 'properties', 'reason'],
+                    },
+                    description: 'One patch per component; leave out components that need the user to supply information',
+                },
+            },
+            required: ['patches'],
+        },
+    },
+};
@@ -1,35 +1,97 @@
 import OpenAI from 'openai';
 import { config } from '../config/environment.js';
-import { nifiFunctions, systemPrompt } from './functions.js';
+import { buildNifiFunctions, buildSystemPrompt, repairFunction } from './functions.js';
+import { InvalidComponent, PropertyPatch } from '../nifi/flow-repair.js';
+import { UnconnectedRelationshipStrategy } from '../nifi/relationship-policy.js';
+import { LoadBalanceStrategy, LoadBalanceCompression, SchedulingStrategy, BulletinLevel } from '../nifi/types.js';
 import { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { describeError } from '../nifi/describe.js';
 
 export interface ETLAnalysis {
     source_type: string;
     destination_type: string;
     transformations: string[];
     processors_needed: Array<{ name: string; purpose: string }>;
-    missing_parameters: Array<{
-        param_name: string;
-        prompt: string;
-        example?: string;
-        required: boolean;
-    }>;
+    missing_parameters: MissingParameter[];
     flow_name: string;
     flow_description?: string;
 }
 
+// What kind of value a parameter takes, which decides how the answer is validated;
+// secrets are read with hidden input and the model only ever sees a placeholder
+export type ParameterType = 'string' | 'uri' | 'host_port' | 'integer' | 'enum' | 'path' | 'sql' | 'secret' | 'boolean';
+
+export interface MissingParameter {
+    param_name: string;
+    prompt: string;
+    example?: string;
+    required: boolean;
+    type?: ParameterType;
+    default?: string;
+    // The only accepted answers for enum parameters
+    allowed_values?: string[];
+}
+
+// What a connection can start or end at
+export type FlowComponentKind =
+    | 'processor'
+    | 'input_port'
+    | 'output_port'
+    | 'funnel'
+    | 'remote_input_port'
+    | 'remote_output_port';
+
+// When and how often a processor runs; anything omitted comes from the catalog defaults
+export interface ProcessorScheduling {
+    strategy?: SchedulingStrategy;
+    // Duration such as "5 min" for TIMER_DRIVEN, Quartz cron expression for CRON_DRIVEN
+    period?: string;
+    concurrent_tasks?: number;
+    run_duration_millis?: number;
+    penalty_duration?: string;
+    yield_duration?: string;
+    bulletin_level?: BulletinLevel;
+}
+
 export interface FlowDefinition {
     flow_name: string;
+    target_group?: string;
+    unconnected_relationships?: UnconnectedRelationshipStrategy;
     processors: Array<{
         name: string;
         type: string;
         properties: Record<string, string>;
         auto_terminate?: string[];
+        scheduling?: ProcessorScheduling;
+    }>;
+    input_ports?: Array<{ name: string; comments?: string }>;
+    output_ports?: Array<{ name: string; comments?: string }>;
+    // Funnels have no name in NiFi; the name only identifies them in the definition
+    funnels?: Array<{ name?: string }>;
+    labels?: Array<{ text: string; processor_indexes?: number[] }>;
+    remote_process_groups?: Array<{
+        name?: string;
+        target_uris: string;
+        transport_protocol?: 'RAW' | 'HTTP';
+        comments?: string;
     }>;
     connections: Array<{
+        // Endpoints default to processors; remote port indexes point into remote_process_groups
+        from_type?: FlowComponentKind;
         from_index: number;
+        from_remote_port?: string;
+        to_type?: FlowComponentKind;
         to_index: number;
+        to_remote_port?: string;
+        // Only meaningful when the source is a processor
         relationships: string[];
+        back_pressure_object_threshold?: number;
+        back_pressure_data_size_threshold?: string;
+        flow_file_expiration?: string;
+        prioritizers?: string[];
+        load_balance_strategy?: LoadBalanceStrategy;
+        load_balance_partition_attribute?: string;
+        load_balance_compression?: LoadBalanceCompression;
     }>;
     controller_services?: Array<{
         name: string;
@@ -45,19 +107,24 @@ export interface FlowDefinition {
 export interface ClarificationRequest {
     question: string;
     options?: string[];
+    secret?: boolean;
 }
 
-export type AgentResponse =
-    | { type: 'analysis'; data: ETLAnalysis }
-    | { type: 'flow'; data: FlowDefinition }
-    | { type: 'clarification'; data: ClarificationRequest }
-    | { type: 'message'; data: string };
+// Runs a tool call and returns the real result to send back to the model
+export type ToolExecutor = (name: string, args: any) => Promise<unknown>;
+
+// Applied to everything sent to the model, e.g. to swap secrets for placeholders
+export type Redactor = (text: string) => string;
 
 export class OpenAIService {
     private client: OpenAI;
     private conversationHistory: ChatCompletionMessageParam[] = [];
+    private toolExecutor?: ToolExecutor;
+    private redact: Redactor;
 
-    constructor() {
+    constructor(toolExecutor?: ToolExecutor, redact: Redactor = text => text) {
+        this.toolExecutor = toolExecutor;
+        this.redact = redact;
         this.client = new OpenAI({
             apiKey: config.openai.apiKey,
         });
@@ -65,11 +132,13 @@ export class OpenAIService {
         // Initialize with system prompt
         this.conversationHistory.push({
             role: 'system',
-            content: systemPrompt,
+            content: buildSystemPrompt(),
         });
     }
 
-    async processMessage(userMessage: string, collectedParams?: Record<string, string>): Promise<AgentResponse> {
+    // Agent loop: run every tool call the model makes and feed the real results back
+    // until it answers in plain text or the step limit is reached
+    async processMessage(userMessage: string, collectedParams?: Record<string, string>): Promise<string> {
         // Add context about collected parameters if any
         let messageContent = userMessage;
         if (collectedParams && Object.keys(collectedParams).length > 0) {
@@ -78,99 +147,133 @@ export class OpenAIService {
 
         this.conversationHistory.push({
             role: 'user',
-            content: messageContent,
-        });
-
-        const response = await this.client.chat.completions.create({
-            model: config.openai.model,
-            messages: this.conversationHistory,
-            tools: nifiFunctions,
-            tool_choice: 'auto',
+            content: this.redact(messageContent),
         });
 
-        const message = response.choices[0].message;
+        for (let step = 0; step < config.openai.maxSteps; step++) {
+            const response = await this.client.chat.completions.create({
+                model: config.openai.model,
+                messages: this.conversationHistory,
+                tools: buildNifiFunctions(),
+                tool_choice: 'auto',
+            });
 
-        // Add assistant response to history
-        this.conversationHistory.push(message);
+            const message = response.choices[0].message;
 
-        // Check if the model wants to call a function
-        if (message.tool_calls && message.tool_calls.length > 0) {
-            const toolCall = message.tool_calls[0];
-            const functionName = toolCall.function.name;
-            const functionArgs = JSON.parse(toolCall.function.arguments);
+            // Add assistant response to history
+            this.conversationHistory.push(message);
 
-            // Add function result to history (simulated)
-            this.conversationHistory.push({
-                role: 'tool',
-                tool_call_id: toolCall.id,
-                content: JSON.stringify({ status: 'acknowledged', function: functionName }),
-            });
+            // A plain text response ends the loop
+            if (!message.tool_calls || message.tool_calls.length === 0) {
+                return message.content || 'No response generated';
+            }
 
-            switch (functionName) {
-                case 'analyze_etl_request':
-                    return { type: 'analysis', data: functionArgs as ETLAnalysis };
-                case 'create_nifi_flow':
-                    return { type: 'flow', data: functionArgs as FlowDefinition };
-                case 'request_clarification':
-                    return { type: 'clarification', data: functionArgs as ClarificationRequest };
-                default:
-                    return { type: 'message', data: `Unknown function: ${functionName}` };
+            for (const toolCall of message.tool_calls) {
+                const result = await this.executeTool(toolCall.function.name, toolCall.function.arguments);
+                this.conversationHistory.push({
+                    role: 'tool',
+                    tool_call_id: toolCall.id,
+                    content: this.redact(JSON.stringify(result)),
+                });
             }
         }
 
-        // Regular text response
-        return { type: 'message', data: message.content || 'No response generated' };
+        return `Stopped after ${config.openai.maxSteps} steps without a final answer. Try rephrasing or breaking the request up.`;
     }
 
-    async refineWithParameters(
-        analysis: ETLAnalysis,
-        collectedParams: Record<string, string>
-    ): Promise<AgentResponse> {
-        const refinementPrompt = `All required parameters have been collected. Create the NiFi flow now.
-
-Original analysis:
-${JSON.stringify(analysis, null, 2)}
-
-User-provided parameter values:
-${JSON.stringify(collectedParams, null, 2)}
-
-CRITICAL: When calling create_nifi_flow, you MUST:
-1. Map parameter values to EXACT NiFi property names in each processor's "properties" object
-2. For PublishMQTT, use these exact property names:
-   - "Broker URI" (not "broker_uri" or "mqtt_broker")
-   - "Topic" (not "topic" or "mqtt_topic")
-   - "Quality of Service" (optional, default is "1")
-3. For ConsumeMQTT, use:
-   - "Broker URI"
-   - "Topic Filter"
-4. For GenerateFlowFile, use:
-   - "Custom Text" for the message content
-   - "Data Format" set to "Text"
-5. For ExecuteSQL, use:
-   - "Database Connection Pooling Service"
-   - "SQL select query"
-
-Example of correct processor config:
-{
-  "name": "Publish to MQTT",
-  "type": "PublishMQTT",
-  "properties": {
-    "Broker URI": "tcp://localhost:1883",
-    "Topic": "my/topic",
-    "Quality of Service": "1"
-  }
-}
+    private async executeTool(name: string, rawArgs: string): Promise<unknown> {
+        if (!this.toolExecutor) {
+            return { error: `Tool ${name} is not available` };
+        }
+        let args: any;
+        try {
+            args = JSON.parse(rawArgs || '{}');
+        } catch (error: any) {
+            return { error: `Invalid JSON arguments for ${name}: ${error.message}` };
+        }
+        try {
+            return await this.toolExecutor(name, args);
+        } catch (error: any) {
+            return { error: describeError(error) };
+        }
+    }
+
+    // One-off advice for an alert raised in watch mode; not part of the conversation
+    async suggestFix(problem: string, context: unknown): Promise<string> {
+        const response = await this.client.chat.completions.create({
+            model: config.openai.model,
+            messages: [
+                this.conversationHistory[0],
+                {
+                    role: 'user',
+                    content: `A deployed NiFi flow raised this alert: ${problem}
+
+Suggest the most likely cause and a concrete fix in at most three short sentences. Current flow status:
+${this.redact(JSON.stringify(context, null, 2))}`,
+                },
+            ],
+        });
+        return response.choices[0].message.content?.trim() || 'No suggestion';
+    }
+
+    // Apply a change the user asked for while reviewing a flow that has not been built yet
+    async revisePlan(definition: FlowDefinition, request: string): Promise<FlowDefinition | null> {
+        const createFlow = buildNifiFunctions().find(tool => tool.function.name === 'create_nifi_flow')!;
+        const response = await this.client.chat.completions.create({
+            model: config.openai.model,
+            messages: [
+                this.conversationHistory[0],
+                {
+                    role: 'user',
+                    content: `The user is reviewing this flow definition before it is created in NiFi:
+${this.redact(JSON.stringify(definition, null, 2))}
 
-Now call create_nifi_flow with the full configuration, ensuring ALL collected parameter values are properly mapped to processor properties.`;
+Apply this change and return the complete revised definition, keeping everything else as it is: ${this.redact(request)}`,
+                },
+            ],
+            tools: [createFlow],
+            tool_choice: { type: 'function', function: { name: createFlow.function.name } },
+        });
+
+        const toolCall = response.choices[0].message.tool_calls?.[0];
+        if (!toolCall) {
+            return null;
+        }
+        return JSON.parse(toolCall.function.arguments);
+    }
+
+    // Ask the model for property patches that fix NiFi validation errors. Runs while create_nifi_flow
+    // is still executing, when the history ends in a tool call without its reply, so it is sent on its own
+    async proposeRepairs(invalid: InvalidComponent[]): Promise<PropertyPatch[]> {
+        const response = await this.client.chat.completions.create({
+            model: config.openai.model,
+            messages: [
+                this.conversationHistory[0],
+                {
+                    role: 'user',
+                    content: `The deployed flow has invalid components. Propose property patches that fix the validation errors below.
+Only change what the errors require, use exact NiFi property names and only the allowable values listed.
 
-        return this.processMessage(refinementPrompt, collectedParams);
+${this.redact(JSON.stringify(invalid, null, 2))}`,
+                },
+            ],
+            tools: [repairFunction],
+            tool_choice: { type: 'function', function: { name: repairFunction.function.name } },
+        });
+
+        const toolCall = response.choices[0].message.tool_calls?.[0];
+        if (!toolCall) {
+            return [];
+        }
+        const args = JSON.parse(toolCall.function.arguments);
+        return args.patches || [];
     }
 
     resetConversation(): void {
         this.conversationHistory = [
             {
                 role: 'system',
-                content: systemPrompt,
+                content: buildSystemPrompt(),
             },
         ];
     }
@@ -1,4 +1,15 @@
-import { ProcessorTypeInfo, BundleDTO } from '../nifi/types.js';
+import {
+    ProcessorTypeInfo,
+    ControllerServiceTypeInfo,
+    BundleDTO,
+    ConnectionSettings,
+    SchedulingSettings,
+} from '../nifi/types.js';
+import type { ProcessorScheduling } from '../openai/service.js';
+
+// Curated catalog. At startup CatalogService (discovery.ts) replaces the types, bundles,
+// properties and relationships with what the connected NiFi reports; the defaults and
+// descriptions below are kept on top. Bundles here are only used if discovery fails.
 
 // Standard NiFi bundle
 const standardBundle: BundleDTO = {
@@ -21,24 +32,44 @@ export const processorCatalog: Record<string, ProcessorTypeInfo> = {
         bundle: mqttBundle,
         requiredProperties: ['Broker URI', 'Topic'],
         optionalProperties: ['Client ID', 'Quality of Service', 'Retain Message', 'Username', 'Password'],
+        sensitiveProperties: ['Password'],
+        environmentProperties: ['Broker URI', 'Username'],
         defaultProperties: {
             'Quality of Service': '1',
             'Retain Message': 'false',
         },
         relationships: ['success', 'failure'],
         description: 'Publishes FlowFile content as an MQTT message to a broker',
+        destinationFor: 'mqtt',
+        defaultScheduling: {
+            schedulingStrategy: 'TIMER_DRIVEN',
+            schedulingPeriod: '0 sec',
+            concurrentlySchedulableTaskCount: 1,
+        },
     },
     ConsumeMQTT: {
         type: 'org.apache.nifi.processors.mqtt.ConsumeMQTT',
         bundle: mqttBundle,
         requiredProperties: ['Broker URI', 'Topic Filter'],
         optionalProperties: ['Client ID', 'Quality of Service', 'Max Queue Size', 'Username', 'Password'],
+        sensitiveProperties: ['Password'],
+        environmentProperties: ['Broker URI', 'Username'],
         defaultProperties: {
             'Quality of Service': '1',
             'Max Queue Size': '1000',
         },
         relationships: ['Message'],
         description: 'Subscribes to MQTT topics and receives messages',
+        sourceFor: 'mqtt',
+        connectionDefaults: {
+            backPressureObjectThreshold: 50000,
+            prioritizers: ['FirstInFirstOutPrioritizer'],
+        },
+        defaultScheduling: {
+            schedulingStrategy: 'TIMER_DRIVEN',
+            schedulingPeriod: '0 sec',
+            concurrentlySchedulableTaskCount: 1,
+        },
     },
 
     // Database Processors
@@ -50,6 +81,15 @@ export const processorCatalog: Record<string, ProcessorTypeInfo> = {
         defaultProperties: {},
         relationships: ['success', 'failure'],
         description: 'Executes SQL SELECT queries against a database',
+        sourceFor: 'database',
+        connectionDefaults: {
+            backPressureDataSizeThreshold: '2 GB',
+        },
+        defaultScheduling: {
+            schedulingStrategy: 'TIMER_DRIVEN',
+            schedulingPeriod: '5 min',
+            concurrentlySchedulableTaskCount: 1,
+        },
     },
     ExecuteSQLRecord: {
         type: 'org.apache.nifi.processors.standard.ExecuteSQLRecord',
@@ -59,6 +99,15 @@ export const processorCatalog: Record<string, ProcessorTypeInfo> = {
         defaultProperties: {},
         relationships: ['success', 'failure', 'original'],
         description: 'Executes SQL SELECT and writes results using a Record Writer',
+        sourceFor: 'database',
+        connectionDefaults: {
+            backPressureDataSizeThreshold: '2 GB',
+        },
+        defaultScheduling: {
+            schedulingStrategy: 'TIMER_DRIVEN',
+            schedulingPeriod: '5 min',
+            concurrentlySchedulableTaskCount: 1,
+        },
     },
 
     // Transformation Processors
@@ -70,6 +119,11 @@ export const processorCatalog: Record<string, ProcessorTypeInfo> = {
         defaultProperties: {},
         relationships: ['success', 'failure'],
         description: 'Converts between record formats (Avro, JSON, CSV, etc.)',
+        defaultScheduling: {
+            schedulingStrategy: 'TIMER_DRIVEN',
+            schedulingPeriod: '0 sec',
+            concurrentlySchedulableTaskCount: 1,
+        },
     },
     UpdateAttribute: {
         type: 'org.apache.nifi.processors.attributes.UpdateAttribute',
@@ -79,6 +133,12 @@ export const processorCatalog: Record<string, ProcessorTypeInfo> = {
         defaultProperties: {},
         relationships: ['success', 'failure'],
         description: 'Adds or modifies FlowFile attributes',
+        defaultScheduling: {
+            schedulingStrategy: 'TIMER_DRIVEN',
+            schedulingPeriod: '0 sec',
+            concurrentlySchedulableTaskCount: 1,
+            runDurationMillis: 25,
+        },
     },
     JoltTransformJSON: {
         type: 'org.apache.nifi.processors.standard.JoltTransformJSON',
@@ -90,6 +150,11 @@ export const processorCatalog: Record<string, ProcessorTypeInfo> = {
         },
         relationships: ['success', 'failure'],
         description: 'Transforms JSON using JOLT specifications',
+        defaultScheduling: {
+            schedulingStrategy: 'TIMER_DRIVEN',
+            schedulingPeriod: '0 sec',
+            concurrentlySchedulableTaskCount: 1,
+        },
     },
 
     // File/HTTP Processors
@@ -98,34 +163,60 @@ export const processorCatalog: Record<string, ProcessorTypeInfo> = {
         bundle: standardBundle,
         requiredProperties: ['Input Directory'],
         optionalProperties: ['File Filter', 'Recurse Subdirectories', 'Keep Source File'],
+        environmentProperties: ['Input Directory'],
         defaultProperties: {
             'Keep Source File': 'false',
         },
         relationships: ['success'],
         description: 'Reads files from a directory',
+        sourceFor: 'file',
+        connectionDefaults: {
+            backPressureObjectThreshold: 1000,
+        },
+        defaultScheduling: {
+            schedulingStrategy: 'TIMER_DRIVEN',
+            schedulingPeriod: '30 sec',
+            concurrentlySchedulableTaskCount: 1,
+        },
     },
     PutFile: {
         type: 'org.apache.nifi.processors.standard.PutFile',
         bundle: standardBundle,
         requiredProperties: ['Directory'],
         optionalProperties: ['Conflict Resolution Strategy', 'Create Missing Directories'],
+        environmentProperties: ['Directory'],
         defaultProperties: {
             'Create Missing Directories': 'true',
             'Conflict Resolution Strategy': 'fail',
         },
         relationships: ['success', 'failure'],
         description: 'Writes FlowFile content to a file',
+        destinationFor: 'file',
+        defaultScheduling: {
+            schedulingStrategy: 'TIMER_DRIVEN',
+            schedulingPeriod: '0 sec',
+            concurrentlySchedulableTaskCount: 1,
+        },
     },
     InvokeHTTP: {
         type: 'org.apache.nifi.processors.standard.InvokeHTTP',
         bundle: standardBundle,
         requiredProperties: ['HTTP URL', 'HTTP Method'],
         optionalProperties: ['Content-Type', 'Request Username', 'Request Password'],
+        sensitiveProperties: ['Request Password'],
+        environmentProperties: ['HTTP URL', 'Request Username'],
         defaultProperties: {
             'HTTP Method': 'GET',
         },
         relationships: ['Response', 'Retry', 'No Retry', 'Failure', 'Original'],
         description: 'Sends HTTP requests',
+        sourceFor: 'http',
+        destinationFor: 'http',
+        defaultScheduling: {
+            schedulingStrategy: 'TIMER_DRIVEN',
+            schedulingPeriod: '0 sec',
+            concurrentlySchedulableTaskCount: 1,
+        },
     },
 
     // Utility Processors
@@ -139,6 +230,12 @@ export const processorCatalog: Record<string, ProcessorTypeInfo> = {
         },
         relationships: ['success'],
         description: 'Generates FlowFiles for testing',
+        sourceFor: 'generate',
+        defaultScheduling: {
+            schedulingStrategy: 'TIMER_DRIVEN',
+            schedulingPeriod: '1 min',
+            concurrentlySchedulableTaskCount: 1,
+        },
     },
     LogAttribute: {
         type: 'org.apache.nifi.processors.standard.LogAttribute',
@@ -151,6 +248,13 @@ export const processorCatalog: Record<string, ProcessorTypeInfo> = {
         },
         relationships: ['success'],
         description: 'Logs FlowFile attributes for debugging',
+        destinationFor: 'log',
+        defaultScheduling: {
+            schedulingStrategy: 'TIMER_DRIVEN',
+            schedulingPeriod: '0 sec',
+            concurrentlySchedulableTaskCount: 1,
+            runDurationMillis: 25,
+        },
     },
     LogMessage: {
         type: 'org.apache.nifi.processors.standard.LogMessage',
@@ -162,22 +266,25 @@ export const processorCatalog: Record<string, ProcessorTypeInfo> = {
         },
         relationships: ['success'],
         description: 'Logs a custom message',
+        destinationFor: 'log',
+        defaultScheduling: {
+            schedulingStrategy: 'TIMER_DRIVEN',
+            schedulingPeriod: '0 sec',
+            concurrentlySchedulableTaskCount: 1,
+            runDurationMillis: 25,
+        },
     },
 };
 
 // Controller Service catalog
-export const controllerServiceCatalog: Record<string, {
-    type: string;
-    bundle: BundleDTO;
-    requiredProperties: string[];
-    optionalProperties: string[];
-    description: string;
-}> = {
+export const controllerServiceCatalog: Record<string, ControllerServiceTypeInfo> = {
     DBCPConnectionPool: {
         type: 'org.apache.nifi.dbcp.DBCPConnectionPool',
         bundle: standardBundle,
         requiredProperties: ['Database Connection URL', 'Database Driver Class Name', 'Database User', 'Password'],
         optionalProperties: ['Max Wait Time', 'Max Total Connections'],
+        sensitiveProperties: ['Password'],
+        environmentProperties: ['Database Connection URL', 'Database User'],
         description: 'JDBC Connection Pool for database access',
     },
     JsonTreeReader: {
@@ -210,6 +317,36 @@ export const controllerServiceCatalog: Record<string, {
     },
 };
 
+// Connection settings applied unless the flow definition or the source processor overrides them
+export const connectionDefaults: { standard: ConnectionSettings; failure: ConnectionSettings } = {
+    standard: {
+        backPressureObjectThreshold: 10000,
+        backPressureDataSizeThreshold: '1 GB',
+        flowFileExpiration: '0 sec',
+        loadBalanceStrategy: 'DO_NOT_LOAD_BALANCE',
+    },
+    // Failure paths hold fewer FlowFiles and surface the oldest problems first
+    failure: {
+        backPressureObjectThreshold: 1000,
+        backPressureDataSizeThreshold: '100 MB',
+        flowFileExpiration: '0 sec',
+        prioritizers: ['OldestFlowFileFirstPrioritizer'],
+        loadBalanceStrategy: 'DO_NOT_LOAD_BALANCE',
+    },
+};
+
+// Queue prioritizers shipped with NiFi, by short name
+export const prioritizerTypes: Record<string, string> = {
+    FirstInFirstOutPrioritizer: 'org.apache.nifi.prioritizer.FirstInFirstOutPrioritizer',
+    NewestFlowFileFirstPrioritizer: 'org.apache.nifi.prioritizer.NewestFlowFileFirstPrioritizer',
+    OldestFlowFileFirstPrioritizer: 'org.apache.nifi.prioritizer.OldestFlowFileFirstPrioritizer',
+    PriorityAttributePrioritizer: 'org.apache.nifi.prioritizer.PriorityAttributePrioritizer',
+};
+
+// Names of the hand-curated entries, captured before discovery adds live types
+export const curatedProcessorNames = new Set(Object.keys(processorCatalog));
+export const curatedControllerServiceNames = new Set(Object.keys(controllerServiceCatalog));
+
 // Helper function to get processor info
 export function getProcessorInfo(name: string): ProcessorTypeInfo | undefined {
     return processorCatalog[name];
@@ -228,3 +365,41 @@ export function findProcessorsByKeywords(keywords: string[]): ProcessorTypeInfo[
     }
     return results;
 }
+
+// Whether a property holds a secret, per the curated list or NiFi's own descriptor
+export function isSensitiveProperty(info: ProcessorTypeInfo | ControllerServiceTypeInfo | undefined, property: string): boolean {
+    return !!info && (!!info.sensitiveProperties?.includes(property) || !!info.properties?.[property]?.sensitive);
+}
+
+// Catalog scheduling for a processor type, overridden by whatever the flow definition sets
+export function getSchedulingSettings(name: string, scheduling: ProcessorScheduling = {}): SchedulingSettings {
+    const settings: SchedulingSettings = {
+        ...processorCatalog[name]?.defaultScheduling,
+        ...toSchedulingSettings(scheduling),
+    };
+
+    // A cron schedule replaces the catalog's timer period rather than inheriting it
+    if (scheduling.strategy === 'CRON_DRIVEN' && !scheduling.period) {
+        delete settings.schedulingPeriod;
+    }
+    return settings;
+}
+
+// Only the fields that were actually set, in NiFi's naming
+export function toSchedulingSettings(scheduling: ProcessorScheduling): SchedulingSettings {
+    const settings: Record<string, unknown> = {
+        schedulingStrategy: scheduling.strategy,
+        schedulingPeriod: scheduling.period,
+        concurrentlySchedulableTaskCount: scheduling.concurrent_tasks,
+        runDurationMillis: scheduling.run_duration_millis,
+        penaltyDuration: scheduling.penalty_duration,
+        yieldDuration: scheduling.yield_duration,
+        bulletinLevel: scheduling.bulletin_level,
+    };
+    for (const key of Object.keys(settings)) {
+        if (settings[key] === undefined) {
+            delete settings[key];
+        }
+    }
+    return settings as SchedulingSettings;
+}
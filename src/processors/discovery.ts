@@ -0,0 +1,276 @@
+import fs from 'fs';
+import path from 'path';
+import { NiFiClient } from '../nifi/client.js';
+import { config } from '../config/environment.js';
+import {
+    BundleDTO,
+    ComponentDefinitionDTO,
+    DocumentedTypeDTO,
+    PropertyDescriptorInfo,
+} from '../nifi/types.js';
+import {
+    processorCatalog,
+    controllerServiceCatalog,
+    curatedProcessorNames,
+    curatedControllerServiceNames,
+} from './catalog.js';
+import { shortType } from '../nifi/describe.js';
+
+// A component type as reported by the connected NiFi
+export interface DiscoveredType {
+    name: string;
+    type: string;
+    bundle: BundleDTO;
+    description: string;
+    properties: Record<string, PropertyDescriptorInfo>;
+    relationships: string[];
+    hasDefinition: boolean;
+}
+
+interface CatalogCache {
+    baseUrl: string;
+    nifiVersion: string;
+    fetchedAt: string;
+    processors: DiscoveredType[];
+    controllerServices: DiscoveredType[];
+}
+
+export interface CatalogLoadResult {
+    source: 'cache' | 'nifi';
+    nifiVersion: string;
+    processorCount: number;
+    controllerServiceCount: number;
+    // Curated entries the connected NiFi does not provide
+    unavailable: string[];
+}
+
+// How many definition requests run at once during discovery
+const DEFINITION_CONCURRENCY = 8;
+
+export class CatalogService {
+    private client: NiFiClient;
+    private cachePath: string;
+
+    constructor(client: NiFiClient, cachePath: string = config.catalog.cachePath) {
+        this.client = client;
+        this.cachePath = cachePath;
+    }
+
+    async load(options: { refresh?: boolean } = {}): Promise<CatalogLoadResult> {
+        const about = await this.client.getAbout();
+        let cache = options.refresh ? null : this.readCache(about.version);
+        const source = cache ? 'cache' : 'nifi';
+
+        if (!cache) {
+            cache = {
+                baseUrl: config.nifi.baseUrl,
+                nifiVersion: about.version,
+                fetchedAt: new Date().toISOString(),
+                processors: await this.discover(
+                    await this.client.getProcessorTypes(),
+                    (bundle, type) => this.client.getProcessorDefinition(bundle, type)
+                ),
+                controllerServices: await this.discover(
+                    await this.client.getControllerServiceTypes(),
+                    (bundle, type) => this.client.getControllerServiceDefinition(bundle, type)
+                ),
+            };
+            this.writeCache(cache);
+        }
+
+        const unavailable = [
+            ...applyProcessors(cache.processors),
+            ...applyControllerServices(cache.controllerServices),
+        ];
+
+        return {
+            source,
+            nifiVersion: about.version,
+            processorCount: Object.keys(processorCatalog).length,
+            controllerServiceCount: Object.keys(controllerServiceCatalog).length,
+            unavailable,
+        };
+    }
+
+    private async discover(
+        types: DocumentedTypeDTO[],
+        fetchDefinition: (bundle: BundleDTO, type: string) => Promise<ComponentDefinitionDTO>
+    ): Promise<DiscoveredType[]> {
+        // Several versions of a bundle may be installed; keep the newest of each type
+        const latest = new Map<string, DocumentedTypeDTO>();
+        for (const entry of types) {
+            const existing = latest.get(entry.type);
+            if (!existing || compareVersions(entry.bundle.version, existing.bundle.version) > 0) {
+                latest.set(entry.type, entry);
+            }
+        }
+
+        return mapWithConcurrency([...latest.values()], DEFINITION_CONCURRENCY, async entry => {
+            const discovered: DiscoveredType = {
+                name: shortType(entry.type),
+                type: entry.type,
+                bundle: entry.bundle,
+                description: entry.description || '',
+                properties: {},
+                relationships: [],
+                hasDefinition: false,
+            };
+            try {
+                const definition = await fetchDefinition(entry.bundle, entry.type);
+                discovered.properties = toPropertyInfo(definition);
+                discovered.relationships = (definition.supportedRelationships || []).map(r => r.name);
+                discovered.hasDefinition = true;
+            } catch {
+                // Definitions are only served by NiFi 2.x; keep the type without descriptors
+            }
+            return discovered;
+        });
+    }
+
+    private readCache(nifiVersion: string): CatalogCache | null {
+        try {
+            const cache: CatalogCache = JSON.parse(fs.readFileSync(this.cachePath, 'utf-8'));
+            if (cache.baseUrl === config.nifi.baseUrl && cache.nifiVersion === nifiVersion) {
+                return cache;
+            }
+        } catch {
+            // Missing or unreadable cache: discover again
+        }
+        return null;
+    }
+
+    private writeCache(cache: CatalogCache): void {
+        try {
+            fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
+            fs.writeFileSync(this.cachePath, JSON.stringify(cache, null, 2));
+        } catch {
+            // Caching is an optimisation only
+        }
+    }
+}
+
+// Merge discovered processors into the catalog; returns curated names NiFi does not have
+function applyProcessors(discovered: DiscoveredType[]): string[] {
+    const byName = indexByName(discovered);
+    const unavailable: string[] = [];
+
+    for (const name of curatedProcessorNames) {
+        if (!byName.has(name)) {
+            delete processorCatalog[name];
+            unavailable.push(name);
+        }
+    }
+
+    for (const [name, live] of byName) {
+        const curated = curatedProcessorNames.has(name) ? processorCatalog[name] : undefined;
+        processorCatalog[name] = {
+            ...curated,
+            type: live.type,
+            bundle: live.bundle,
+            requiredProperties: live.hasDefinition ? requiredOf(live) : curated?.requiredProperties || [],
+            optionalProperties: live.hasDefinition ? optionalOf(live) : curated?.optionalProperties || [],
+            defaultProperties: curated?.defaultProperties || {},
+            relationships: live.hasDefinition ? live.relationships : curated?.relationships || [],
+            description: curated?.description || live.description,
+            properties: live.properties,
+            discovered: true,
+        };
+    }
+    return unavailable;
+}
+
+function applyControllerServices(discovered: DiscoveredType[]): string[] {
+    const byName = indexByName(discovered);
+    const unavailable: string[] = [];
+
+    for (const name of curatedControllerServiceNames) {
+        if (!byName.has(name)) {
+            delete controllerServiceCatalog[name];
+            unavailable.push(name);
+        }
+    }
+
+    for (const [name, live] of byName) {
+        const curated = curatedControllerServiceNames.has(name) ? controllerServiceCatalog[name] : undefined;
+        controllerServiceCatalog[name] = {
+            ...curated,
+            type: live.type,
+            bundle: live.bundle,
+            requiredProperties: live.hasDefinition ? requiredOf(live) : curated?.requiredProperties || [],
+            optionalProperties: live.hasDefinition ? optionalOf(live) : curated?.optionalProperties || [],
+            defaultProperties: curated?.defaultProperties,
+            description: curated?.description || live.description,
+            properties: live.properties,
+            discovered: true,
+        };
+    }
+    return unavailable;
+}
+
+// Catalog keys are simple class names; the first type wins if two bundles share a name
+function indexByName(discovered: DiscoveredType[]): Map<string, DiscoveredType> {
+    const byName = new Map<string, DiscoveredType>();
+    for (const entry of discovered) {
+        if (!byName.has(entry.name)) {
+            byName.set(entry.name, entry);
+        }
+    }
+    return byName;
+}
+
+function toPropertyInfo(definition: ComponentDefinitionDTO): Record<string, PropertyDescriptorInfo> {
+    const properties: Record<string, PropertyDescriptorInfo> = {};
+    for (const descriptor of Object.values(definition.propertyDescriptors || {})) {
+        if (descriptor.dynamic) {
+            continue;
+        }
+        properties[descriptor.name] = {
+            name: descriptor.name,
+            displayName: descriptor.displayName,
+            description: descriptor.description,
+            required: descriptor.required || false,
+            sensitive: descriptor.sensitive || false,
+            defaultValue: descriptor.defaultValue,
+            allowableValues: descriptor.allowableValues?.map(v => v.value),
+            controllerServiceType: descriptor.typeProvidedByValue?.type,
+        };
+    }
+    return properties;
+}
+
+function requiredOf(entry: DiscoveredType): string[] {
+    return Object.values(entry.properties).filter(p => p.required).map(p => p.name);
+}
+
+function optionalOf(entry: DiscoveredType): string[] {
+    return Object.values(entry.properties).filter(p => !p.required).map(p => p.name);
+}
+
+function compareVersions(a: string, b: string): number {
+    const pa = a.split(/[.-]/).map(part => parseInt(part, 10) || 0);
+    const pb = b.split(/[.-]/).map(part => parseInt(part, 10) || 0);
+    for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+        const diff = (pa[i] || 0) - (pb[i] || 0);
+        if (diff !== 0) {
+            return diff;
+        }
+    }
+    return 0;
+}
+
+async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index]);
+        }
+    });
+    await Promise.all(workers);
+    return results;
+}
@@ -0,0 +1,79 @@
+import util from 'util';
+
+// Secrets the user types never reach the model or the console. The model, the conversation and every
+// printed line see a placeholder such as {{secret:db_password}}; the real value is filled back in
+// only when a flow is sent to NiFi
+
+const PLACEHOLDER = /\{\{secret:([A-Za-z0-9_.-]+)\}\}/g;
+// Names that suggest a secret when the model forgets to flag one
+const SECRET_NAME = /password|passphrase|secret|token|api[-_ ]?key|private[-_ ]?key|credential/i;
+// Shorter values would mask unrelated text all over the output
+const MIN_REDACTED_LENGTH = 4;
+
+export function isSecretName(name: string): boolean {
+    return SECRET_NAME.test(name);
+}
+
+export function containsPlaceholder(value: string): boolean {
+    return new RegExp(PLACEHOLDER.source).test(value);
+}
+
+export class SecretVault {
+    private secrets = new Map<string, string>();
+
+    // Store a secret and return the placeholder that stands in for it
+    add(name: string, value: string): string {
+        const base = name.replace(/[^A-Za-z0-9_.-]+/g, '_') || 'secret';
+        let key = base;
+        for (let i = 2; this.secrets.has(key) && this.secrets.get(key) !== value; i++) {
+            key = `${base}_${i}`;
+        }
+        this.secrets.set(key, value);
+        return `{{secret:${key}}}`;
+    }
+
+    clear(): void {
+        this.secrets.clear();
+    }
+
+    // Swap placeholders for the real values, anywhere in a string, array or object
+    reveal<T>(value: T): T {
+        return this.mapStrings(value, text =>
+            text.replace(PLACEHOLDER, (match, key: string) => this.secrets.get(key) ?? match)) as T;
+    }
+
+    // Swap any real secret value that slipped into text back to its placeholder
+    redact(text: string): string {
+        let redacted = text;
+        for (const [key, value] of this.secrets) {
+            if (value.length >= MIN_REDACTED_LENGTH) {
+                redacted = redacted.split(value).join(`{{secret:${key}}}`);
+            }
+        }
+        return redacted;
+    }
+
+    private mapStrings(value: unknown, map: (text: string) => string): unknown {
+        if (typeof value === 'string') {
+            return map(value);
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.mapStrings(item, map));
+        }
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.mapStrings(v, map)]));
+        }
+        return value;
+    }
+}
+
+// Route console output through the vault so no code path can print a secret
+export function installConsoleRedaction(vault: SecretVault): void {
+    for (const method of ['log', 'info', 'warn', 'error', 'debug'] as const) {
+        const original = console[method].bind(console);
+        console[method] = (...args: unknown[]) => original(...args.map(arg =>
+            typeof arg === 'string' ? vault.redact(arg)
+                : arg !== null && typeof arg === 'object' ? vault.redact(util.inspect(arg))
+                    : arg));
+    }
+}
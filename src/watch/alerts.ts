@@ -0,0 +1,85 @@
+import axios from 'axios';
+import { WatchCondition } from './conditions.js';
+import { WatchRules } from './rules.js';
+
+export interface WatchAlert {
+    status: 'firing' | 'resolved';
+    condition: WatchCondition;
+    // Model's take on the cause and fix, when suggestFixes is on
+    suggestion?: string;
+    firstSeen: string;
+    timestamp: string;
+}
+
+interface ActiveCondition {
+    condition: WatchCondition;
+    firstSeen: number;
+    lastSent: number;
+}
+
+// Keeps track of open conditions so each one alerts once, again after the repeat interval, and once when it clears
+export class AlertTracker {
+    private active = new Map<string, ActiveCondition>();
+    private settings: WatchRules['alerts'];
+
+    constructor(settings: WatchRules['alerts']) {
+        this.settings = settings;
+    }
+
+    // Compare this poll's conditions with the open ones; returns the alerts that should go out
+    update(conditions: WatchCondition[], polledGroupIds: string[], now = Date.now()): WatchAlert[] {
+        const alerts: WatchAlert[] = [];
+        const current = new Set(conditions.map(c => c.key));
+        const repeatAfter = this.settings.repeatAfterMinutes * 60000;
+
+        for (const condition of conditions) {
+            const open = this.active.get(condition.key);
+            if (!open) {
+                this.active.set(condition.key, { condition, firstSeen: now, lastSent: now });
+                alerts.push(toAlert('firing', condition, now, now));
+            } else if (repeatAfter > 0 && now - open.lastSent >= repeatAfter) {
+                open.condition = condition;
+                open.lastSent = now;
+                alerts.push(toAlert('firing', condition, open.firstSeen, now));
+            }
+        }
+
+        // Only groups polled successfully this round can clear their conditions
+        const polled = new Set(polledGroupIds);
+        for (const [key, open] of this.active) {
+            if (!current.has(key) && polled.has(open.condition.processGroupId)) {
+                this.active.delete(key);
+                if (this.settings.sendResolved) {
+                    alerts.push(toAlert('resolved', open.condition, open.firstSeen, now));
+                }
+            }
+        }
+
+        return alerts;
+    }
+}
+
+function toAlert(status: WatchAlert['status'], condition: WatchCondition, firstSeen: number, now: number): WatchAlert {
+    return {
+        status,
+        condition,
+        firstSeen: new Date(firstSeen).toISOString(),
+        timestamp: new Date(now).toISOString(),
+    };
+}
+
+export function formatAlert(alert: WatchAlert): string {
+    const { condition } = alert;
+    const icon = alert.status === 'resolved' ? '✅' : condition.severity === 'critical' ? '🚨' : '⚠️';
+    const heading = alert.status === 'resolved' ? 'Resolved' : condition.severity === 'critical' ? 'Critical' : 'Warning';
+    const lines = [`${icon} ${heading}: ${condition.summary}`];
+    if (alert.suggestion) {
+        lines.push(`Suggested fix: ${alert.suggestion}`);
+    }
+    return lines.join('\n');
+}
+
+export async function sendAlert(alert: WatchAlert, settings: WatchRules['alerts']): Promise<void> {
+    const payload = settings.format === 'slack' ? { text: formatAlert(alert) } : alert;
+    await axios.post(settings.webhookUrl, payload, { timeout: 10000 });
+}
@@ -0,0 +1,92 @@
+import { FlowHealthReport } from '../nifi/monitor.js';
+import { WatchRules } from './rules.js';
+
+export interface WatchCondition {
+    // Stable identity of the condition, used to de-duplicate alerts
+    key: string;
+    // unresolvedGroup: a configured group that could not be found; raised by the watcher itself
+    rule: 'backPressure' | 'errorBulletins' | 'stoppedProcessors' | 'staleQueue' | 'unresolvedGroup';
+    severity: 'critical' | 'warning';
+    processGroupId: string;
+    processGroupName: string;
+    summary: string;
+}
+
+// When each queue was first seen stuck, so stale queues can be detected across polls
+export type QueueHistory = Map<string, { queued: number; since: number }>;
+
+export function detectConditions(
+    report: FlowHealthReport,
+    rules: WatchRules['rules'],
+    history: QueueHistory,
+    now = Date.now()
+): WatchCondition[] {
+    const conditions: WatchCondition[] = [];
+    const condition = (key: string, rule: WatchCondition['rule'], severity: WatchCondition['severity'], summary: string) =>
+        conditions.push({
+            key: `${report.processGroupId}:${rule}:${key}`,
+            rule,
+            severity,
+            processGroupId: report.processGroupId,
+            processGroupName: report.processGroupName,
+            summary: `${report.processGroupName}: ${summary}`,
+        });
+
+    if (rules.backPressure.enabled) {
+        for (const queue of report.queues) {
+            if ((queue.percentFull ?? 0) >= rules.backPressure.percent) {
+                condition(queue.id, 'backPressure', 'critical',
+                    `queue ${queue.from} → ${queue.to} is ${queue.percentFull}% full (${queue.flowFilesQueued} FlowFiles); back pressure is pausing ${queue.from}`);
+            }
+        }
+    }
+
+    if (rules.errorBulletins.enabled) {
+        const levels = new Set(rules.errorBulletins.levels.map(l => l.toUpperCase()));
+        const seen = new Set<string>();
+        for (const bulletin of report.bulletins) {
+            const key = `${bulletin.source}:${bulletin.message}`;
+            if (levels.has(bulletin.level) && !seen.has(key)) {
+                seen.add(key);
+                condition(key, 'errorBulletins', bulletin.level === 'ERROR' ? 'critical' : 'warning',
+                    `${bulletin.source} reported ${bulletin.level}: ${bulletin.message}`);
+            }
+        }
+    }
+
+    if (rules.stoppedProcessors.enabled) {
+        for (const processor of report.processors) {
+            const invalid = processor.runStatus === 'Invalid' && rules.stoppedProcessors.includeInvalid;
+            if (processor.runStatus === 'Stopped' || invalid) {
+                condition(processor.id, 'stoppedProcessors', 'warning',
+                    `${processor.name} is ${processor.runStatus.toLowerCase()}`);
+            }
+        }
+    }
+
+    if (rules.staleQueue.enabled) {
+        const current = new Set<string>();
+        for (const queue of report.queues) {
+            const stuck = queue.flowFilesQueued >= rules.staleQueue.minQueued && queue.flowFilesOut === 0;
+            if (!stuck) {
+                history.delete(queue.id);
+                continue;
+            }
+            current.add(queue.id);
+            const entry = history.get(queue.id) || { queued: queue.flowFilesQueued, since: now };
+            history.set(queue.id, entry);
+            const minutes = Math.floor((now - entry.since) / 60000);
+            if (minutes >= rules.staleQueue.minutes) {
+                condition(queue.id, 'staleQueue', 'warning',
+                    `${queue.flowFilesQueued} FlowFiles have waited ${minutes}+ min in ${queue.from} → ${queue.to} without moving`);
+            }
+        }
+        for (const queueId of [...history.keys()]) {
+            if (!current.has(queueId) && report.queues.some(q => q.id === queueId)) {
+                history.delete(queueId);
+            }
+        }
+    }
+
+    return conditions;
+}
@@ -0,0 +1,83 @@
+import fs from 'fs';
+
+// Watch mode settings, read from a JSON file (WATCH_RULES); anything omitted keeps its default
+
+export interface WatchRules {
+    intervalSeconds: number;
+    // Process group names, paths or IDs; empty means every group the agent created
+    groups: string[];
+    rules: {
+        backPressure: { enabled: boolean; percent: number };
+        errorBulletins: { enabled: boolean; levels: string[] };
+        stoppedProcessors: { enabled: boolean; includeInvalid: boolean };
+        // Queue holding FlowFiles that nothing has taken off for a while
+        staleQueue: { enabled: boolean; minQueued: number; minutes: number };
+    };
+    alerts: {
+        webhookUrl: string;
+        // "json" posts the alert as is; "slack" posts a Slack-compatible { text } payload
+        format: 'json' | 'slack';
+        // Send an alert again if the condition is still present after this long
+        repeatAfterMinutes: number;
+        // Also notify when a condition clears
+        sendResolved: boolean;
+    };
+    // Ask the model for a likely cause and fix with each new alert
+    suggestFixes: boolean;
+}
+
+export const defaultWatchRules: WatchRules = {
+    intervalSeconds: 60,
+    groups: [],
+    rules: {
+        backPressure: { enabled: true, percent: 80 },
+        errorBulletins: { enabled: true, levels: ['ERROR'] },
+        stoppedProcessors: { enabled: true, includeInvalid: true },
+        staleQueue: { enabled: true, minQueued: 1, minutes: 15 },
+    },
+    alerts: {
+        webhookUrl: '',
+        format: 'json',
+        repeatAfterMinutes: 60,
+        sendResolved: true,
+    },
+    suggestFixes: false,
+};
+
+export function loadWatchRules(path: string): { rules: WatchRules; fromFile: boolean } {
+    if (!fs.existsSync(path)) {
+        return { rules: structuredClone(defaultWatchRules), fromFile: false };
+    }
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(fs.readFileSync(path, 'utf8'));
+    } catch (error: any) {
+        throw new Error(`Cannot read watch rules from ${path}: ${error.message}`);
+    }
+
+    const defaults = defaultWatchRules;
+    const rules: WatchRules = {
+        intervalSeconds: parsed.intervalSeconds ?? defaults.intervalSeconds,
+        groups: parsed.groups ?? defaults.groups,
+        rules: {
+            backPressure: { ...defaults.rules.backPressure, ...parsed.rules?.backPressure },
+            errorBulletins: { ...defaults.rules.errorBulletins, ...parsed.rules?.errorBulletins },
+            stoppedProcessors: { ...defaults.rules.stoppedProcessors, ...parsed.rules?.stoppedProcessors },
+            staleQueue: { ...defaults.rules.staleQueue, ...parsed.rules?.staleQueue },
+        },
+        alerts: { ...defaults.alerts, ...parsed.alerts },
+        suggestFixes: parsed.suggestFixes ?? defaults.suggestFixes,
+    };
+
+    if (!(rules.intervalSeconds >= 5)) {
+        throw new Error(`${path}: intervalSeconds must be at least 5`);
+    }
+    if (!Array.isArray(rules.groups)) {
+        throw new Error(`${path}: groups must be a list of process group names or IDs`);
+    }
+    if (rules.alerts.format !== 'json' && rules.alerts.format !== 'slack') {
+        throw new Error(`${path}: alerts.format must be "json" or "slack"`);
+    }
+    return { rules, fromFile: true };
+}
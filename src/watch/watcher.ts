@@ -0,0 +1,159 @@
+import { NiFiClient } from '../nifi/client.js';
+import { FlowMonitor, FlowHealthReport } from '../nifi/monitor.js';
+import { listProcessGroups, resolveProcessGroupId } from '../nifi/process-groups.js';
+import { FLOW_GROUP_COMMENT } from '../nifi/flow-builder.js';
+import { OpenAIService } from '../openai/service.js';
+import { WatchRules } from './rules.js';
+import { detectConditions, QueueHistory, WatchCondition } from './conditions.js';
+import { AlertTracker, WatchAlert, formatAlert, sendAlert } from './alerts.js';
+import chalk from 'chalk';
+
+export interface WatchPollResult {
+    groups: FlowHealthReport[];
+    conditions: WatchCondition[];
+    alerts: WatchAlert[];
+    // Groups that could not be polled this round
+    errors: string[];
+}
+
+export class FlowWatcher {
+    private client: NiFiClient;
+    private monitor: FlowMonitor;
+    private rules: WatchRules;
+    private openai?: OpenAIService;
+    private tracker: AlertTracker;
+    private queueHistory: QueueHistory = new Map();
+    private stopped = false;
+    private wake?: () => void;
+
+    // Pass an OpenAI service to have new alerts carry a suggested fix
+    constructor(client: NiFiClient, rules: WatchRules, openai?: OpenAIService) {
+        this.client = client;
+        this.monitor = new FlowMonitor(client);
+        this.rules = rules;
+        this.openai = openai;
+        this.tracker = new AlertTracker(rules.alerts);
+    }
+
+    async run(): Promise<void> {
+        const onSignal = () => this.stop();
+        process.once('SIGINT', onSignal);
+        process.once('SIGTERM', onSignal);
+
+        try {
+            while (!this.stopped) {
+                try {
+                    await this.poll();
+                } catch (error: any) {
+                    console.log(chalk.red(`❌ Poll failed: ${error.message}`));
+                }
+                await this.sleep(this.rules.intervalSeconds * 1000);
+            }
+        } finally {
+            process.off('SIGINT', onSignal);
+            process.off('SIGTERM', onSignal);
+        }
+        console.log(chalk.gray('\nWatch stopped.'));
+    }
+
+    stop(): void {
+        this.stopped = true;
+        this.wake?.();
+    }
+
+    async poll(): Promise<WatchPollResult> {
+        const { groupIds, unresolved, refKeys } = await this.watchedGroups();
+        const result: WatchPollResult = { groups: [], conditions: [...unresolved], alerts: [], errors: [] };
+
+        for (const groupId of groupIds) {
+            try {
+                const report = await this.monitor.getHealth(groupId);
+                result.groups.push(report);
+                result.conditions.push(...detectConditions(report, this.rules.rules, this.queueHistory));
+            } catch (error: any) {
+                result.errors.push(`${groupId}: ${error.message}`);
+            }
+        }
+
+        result.alerts = this.tracker.update(result.conditions, [...result.groups.map(g => g.processGroupId), ...refKeys]);
+        const time = new Date().toLocaleTimeString();
+        console.log(chalk.gray(
+            `[${time}] ${result.groups.length} group(s) checked, ${result.conditions.length} open condition(s)`
+        ));
+        for (const error of result.errors) {
+            console.log(chalk.yellow(`  ⚠ Could not check ${error}`));
+        }
+
+        for (const alert of result.alerts) {
+            if (alert.status === 'firing' && this.openai) {
+                const report = result.groups.find(g => g.processGroupId === alert.condition.processGroupId);
+                try {
+                    alert.suggestion = await this.openai.suggestFix(alert.condition.summary, report);
+                } catch (error: any) {
+                    console.log(chalk.yellow(`  ⚠ No fix suggestion: ${error.message}`));
+                }
+            }
+            await this.deliver(alert);
+        }
+
+        return result;
+    }
+
+    private async deliver(alert: WatchAlert): Promise<void> {
+        const text = formatAlert(alert);
+        const color = alert.status === 'resolved' ? chalk.green
+            : alert.condition.severity === 'critical' ? chalk.red : chalk.yellow;
+        console.log(color(text.split('\n').map(line => `  ${line}`).join('\n')));
+
+        if (!this.rules.alerts.webhookUrl) {
+            return;
+        }
+        try {
+            await sendAlert(alert, this.rules.alerts);
+        } catch (error: any) {
+            console.log(chalk.yellow(`  ⚠ Webhook delivery failed: ${error.message}`));
+        }
+    }
+
+    // The configured groups, or every group the agent created; re-read each poll so new flows get picked up.
+    // A configured group that cannot be resolved becomes a condition of its own, under a key standing in
+    // for the group ID, so the others are still polled and the alert clears once the group is back
+    private async watchedGroups(): Promise<{ groupIds: string[]; unresolved: WatchCondition[]; refKeys: string[] }> {
+        if (this.rules.groups.length > 0) {
+            const groupIds: string[] = [];
+            const unresolved: WatchCondition[] = [];
+            for (const ref of this.rules.groups) {
+                try {
+                    groupIds.push(await resolveProcessGroupId(this.client, ref));
+                } catch (error: any) {
+                    unresolved.push({
+                        key: `${refKey(ref)}:unresolvedGroup`,
+                        rule: 'unresolvedGroup',
+                        severity: 'critical',
+                        processGroupId: refKey(ref),
+                        processGroupName: ref,
+                        summary: `${ref}: cannot find the watched process group (${error.message})`,
+                    });
+                }
+            }
+            return { groupIds, unresolved, refKeys: this.rules.groups.map(refKey) };
+        }
+        const groups = await listProcessGroups(this.client);
+        return { groupIds: groups.filter(g => g.comments === FLOW_GROUP_COMMENT).map(g => g.id), unresolved: [], refKeys: [] };
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => {
+            const timer = setTimeout(resolve, ms);
+            this.wake = () => {
+                clearTimeout(timer);
+                resolve();
+            };
+        });
+    }
+}
+
+// Stands in for the group ID of a configured group reference
+function refKey(ref: string): string {
+    return `ref:${ref}`;
+}
@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlertTracker } from '../src/watch/alerts.js';
+import { WatchCondition } from '../src/watch/conditions.js';
+import { WatchRules } from '../src/watch/rules.js';
+
+// When the tracker lets an alert out: once per condition, again after the repeat interval, and once when it clears
+
+const MINUTE = 60000;
+
+function settings(overrides: Partial<WatchRules['alerts']> = {}): WatchRules['alerts'] {
+    return { webhookUrl: '', format: 'json', repeatAfterMinutes: 60, sendResolved: true, ...overrides };
+}
+
+function condition(groupId: string, key: string, summary = `${groupId}: ${key}`): WatchCondition {
+    return {
+        key: `${groupId}:backPressure:${key}`,
+        rule: 'backPressure',
+        severity: 'critical',
+        processGroupId: groupId,
+        processGroupName: groupId,
+        summary,
+    };
+}
+
+test('a condition alerts when it first appears and not again on the next polls', () => {
+    const tracker = new AlertTracker(settings());
+    const full = condition('g1', 'c1');
+
+    const first = tracker.update([full], ['g1'], 0);
+    assert.deepEqual(first.map(a => [a.status, a.condition.key]), [['firing', full.key]]);
+    assert.deepEqual(tracker.update([full], ['g1'], MINUTE), []);
+    assert.deepEqual(tracker.update([full], ['g1'], 2 * MINUTE), []);
+});
+
+test('a condition still open after the repeat interval alerts again with its first-seen time', () => {
+    const tracker = new AlertTracker(settings({ repeatAfterMinutes: 30 }));
+    tracker.update([condition('g1', 'c1')], ['g1'], 0);
+    assert.deepEqual(tracker.update([condition('g1', 'c1')], ['g1'], 29 * MINUTE), []);
+
+    const repeated = tracker.update([condition('g1', 'c1', 'g1: now 95% full')], ['g1'], 30 * MINUTE);
+    assert.equal(repeated.length, 1);
+    assert.equal(repeated[0].status, 'firing');
+    assert.equal(repeated[0].condition.summary, 'g1: now 95% full');
+    assert.equal(repeated[0].firstSeen, new Date(0).toISOString());
+    assert.equal(repeated[0].timestamp, new Date(30 * MINUTE).toISOString());
+
+    // The interval runs from the repeat, not from the first alert
+    assert.deepEqual(tracker.update([condition('g1', 'c1')], ['g1'], 45 * MINUTE), []);
+});
+
+test('a repeat interval of 0 never sends a condition again', () => {
+    const tracker = new AlertTracker(settings({ repeatAfterMinutes: 0 }));
+    tracker.update([condition('g1', 'c1')], ['g1'], 0);
+    assert.deepEqual(tracker.update([condition('g1', 'c1')], ['g1'], 24 * 60 * MINUTE), []);
+});
+
+test('a condition that clears alerts once as resolved and can fire again later', () => {
+    const tracker = new AlertTracker(settings());
+    const full = condition('g1', 'c1');
+    tracker.update([full], ['g1'], 0);
+
+    const cleared = tracker.update([], ['g1'], MINUTE);
+    assert.deepEqual(cleared.map(a => [a.status, a.condition.key]), [['resolved', full.key]]);
+    assert.deepEqual(tracker.update([], ['g1'], 2 * MINUTE), []);
+
+    const again = tracker.update([full], ['g1'], 3 * MINUTE);
+    assert.deepEqual(again.map(a => a.status), ['firing']);
+    assert.equal(again[0].firstSeen, new Date(3 * MINUTE).toISOString());
+});
+
+test('conditions of a group that could not be polled stay open', () => {
+    const tracker = new AlertTracker(settings());
+    tracker.update([condition('g1', 'c1'), condition('g2', 'c2')], ['g1', 'g2'], 0);
+
+    // g2 failed this round, so its condition is not taken as cleared
+    const alerts = tracker.update([condition('g1', 'c1')], ['g1'], MINUTE);
+    assert.deepEqual(alerts, []);
+    assert.deepEqual(tracker.update([condition('g1', 'c1')], ['g1', 'g2'], 2 * MINUTE).map(a => [a.status, a.condition.key]), [
+        ['resolved', condition('g2', 'c2').key],
+    ]);
+});
+
+test('with sendResolved off, a cleared condition is forgotten without an alert', () => {
+    const tracker = new AlertTracker(settings({ sendResolved: false }));
+    tracker.update([condition('g1', 'c1')], ['g1'], 0);
+    assert.deepEqual(tracker.update([], ['g1'], MINUTE), []);
+    assert.deepEqual(tracker.update([condition('g1', 'c1')], ['g1'], 2 * MINUTE).map(a => a.status), ['firing']);
+});
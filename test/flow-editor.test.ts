@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+// Edits applied against a local stand-in for NiFi that fails the step under test
+
+function reply(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json' });
+    res.end(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+// An empty "Sensors" group below the root, where created processors cannot be configured
+function failingConfiguration(received: string[]): http.RequestListener {
+    const group = { id: 'g1', component: { id: 'g1', name: 'Sensors' } };
+    const emptyFlow = (id: string, groups: unknown[] = []) => ({
+        processGroupFlow: { id, flow: { processGroups: groups, processors: [], connections: [] } },
+    });
+
+    return (req, res) => {
+        req.resume();
+        req.on('end', () => {
+            const request = `${req.method} ${req.url!.split('?')[0]}`;
+            received.push(request);
+            switch (request) {
+                case 'GET /flow/process-groups/root':
+                    return reply(res, 200, emptyFlow('root', [group]));
+                case 'GET /flow/process-groups/g1':
+                    return reply(res, 200, emptyFlow('g1'));
+                case 'GET /flow/process-groups/g1/status':
+                    return reply(res, 200, { processGroupStatus: { aggregateSnapshot: { connectionStatusSnapshots: [] } } });
+                case 'POST /process-groups/g1/processors':
+                    return reply(res, 201, { revision: { version: 1 }, component: { id: 'p1', name: 'Log' } });
+                case 'GET /processors/p1':
+                    return reply(res, 200, { revision: { version: 1 }, component: { id: 'p1', name: 'Log' } });
+                case 'PUT /processors/p1':
+                    return reply(res, 400, "'Log Level' validated against 'loud' is invalid");
+                case 'DELETE /processors/p1':
+                    return reply(res, 200, { revision: { version: 2 }, component: { id: 'p1' } });
+                default:
+                    return reply(res, 404, `No stand-in for ${request}`);
+            }
+        });
+    };
+}
+
+test('a processor whose configuration is rejected is deleted again', async () => {
+    const received: string[] = [];
+    const server = http.createServer(failingConfiguration(received));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+        // The client reads these when its config module loads
+        process.env.NIFI_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        process.env.NIFI_AUTH = 'none';
+        const { NiFiClient } = await import('../src/nifi/client.js');
+        const { FlowEditor } = await import('../src/nifi/flow-editor.js');
+
+        const editor = new FlowEditor(new NiFiClient());
+        const plan = await editor.planEdit({
+            kind: 'add_processor',
+            process_group: 'Sensors',
+            name: 'Log',
+            type: 'LogAttribute',
+            properties: { 'Log Level': 'loud' },
+        });
+        const result = await editor.applyEdit(plan);
+
+        assert.equal(result.success, false);
+        assert.deepEqual(result.applied, ['Create processor Log']);
+        assert.match(result.errors.join('\n'), /Configure processor Log/);
+        assert.deepEqual(result.rolledBack, ['Create processor Log']);
+        assert.deepEqual(result.rollbackErrors, []);
+        assert.ok(received.includes('DELETE /processors/p1'));
+        assert.equal(received.indexOf('DELETE /processors/p1'), received.length - 1);
+    } finally {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    }
+});
@@ -0,0 +1,112 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import type { InvalidComponent, PropertyPatch } from '../src/nifi/flow-repair.js';
+
+// Repair proposals requested from inside a tool call, against a local stand-in for the OpenAI API
+// that rejects histories the way the real one does
+
+interface ChatRequest {
+    messages: Array<{ role: string; content?: string; tool_calls?: Array<{ id: string }>; tool_call_id?: string }>;
+    tool_choice?: string | { function: { name: string } };
+}
+
+// The 400 OpenAI returns when an assistant tool call has no reply in the history
+function missingToolReplies(request: ChatRequest): string | null {
+    const { messages } = request;
+    for (let i = 0; i < messages.length; i++) {
+        const calls = messages[i].tool_calls || [];
+        if (messages[i].role !== 'assistant' || calls.length === 0) {
+            continue;
+        }
+        const replied = new Set<string>();
+        for (let j = i + 1; j < messages.length && messages[j].role === 'tool'; j++) {
+            replied.add(messages[j].tool_call_id!);
+        }
+        const missing = calls.map(c => c.id).filter(id => !replied.has(id));
+        if (missing.length > 0) {
+            return `An assistant message with 'tool_calls' must be followed by tool messages responding to each 'tool_call_id'. Missing: ${missing.join(', ')}`;
+        }
+    }
+    return null;
+}
+
+function completion(message: Record<string, unknown>): unknown {
+    return {
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: 'test',
+        choices: [{ index: 0, finish_reason: message.tool_calls ? 'tool_calls' : 'stop', message: { role: 'assistant', content: null, ...message } }],
+    };
+}
+
+function toolCall(id: string, name: string, args: unknown): Record<string, unknown> {
+    return { tool_calls: [{ id, type: 'function', function: { name, arguments: JSON.stringify(args) } }] };
+}
+
+const invalid: InvalidComponent[] = [{
+    kind: 'processor',
+    id: 'p1',
+    name: 'Publish MQTT',
+    type: 'org.apache.nifi.processors.mqtt.PublishMQTT',
+    properties: { 'Broker URI': 'localhost:1883' },
+    validationErrors: ["'Broker URI' is invalid because it must start with tcp://"],
+}];
+const patch: PropertyPatch = { component_id: 'p1', properties: { 'Broker URI': 'tcp://localhost:1883' }, reason: 'Add the scheme' };
+
+test('repairs proposed while create_nifi_flow is still running reach the model and come back', async () => {
+    const rejected: string[] = [];
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+            const request: ChatRequest = JSON.parse(body);
+            const problem = missingToolReplies(request);
+            res.setHeader('Content-Type', 'application/json');
+            if (problem) {
+                rejected.push(problem);
+                res.statusCode = 400;
+                res.end(JSON.stringify({ error: { message: problem, type: 'invalid_request_error' } }));
+                return;
+            }
+
+            const forced = typeof request.tool_choice === 'object' ? request.tool_choice.function.name : undefined;
+            const last = request.messages[request.messages.length - 1];
+            let reply: Record<string, unknown>;
+            if (forced === 'propose_property_patches') {
+                reply = toolCall('call-repair', forced, { patches: [patch] });
+            } else if (last.role === 'tool') {
+                reply = { content: 'The flow is built and valid.' };
+            } else {
+                reply = toolCall('call-create', 'create_nifi_flow', { flow_name: 'Sensors', processors: [], connections: [] });
+            }
+            res.end(JSON.stringify(completion(reply)));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+        // The client and config read these when the service module loads
+        process.env.OPENAI_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+        process.env.OPENAI_API_KEY = 'test-key';
+        const { OpenAIService } = await import('../src/openai/service.js');
+
+        let proposed: PropertyPatch[] = [];
+        const service: InstanceType<typeof OpenAIService> = new OpenAIService(async name => {
+            assert.equal(name, 'create_nifi_flow');
+            // What the conversation manager does after a build with invalid components
+            proposed = await service.proposeRepairs(invalid);
+            return { success: true, processGroupId: 'g1' };
+        });
+
+        const answer = await service.processMessage('Publish sensor readings to MQTT');
+        assert.deepEqual(rejected, []);
+        assert.deepEqual(proposed, [patch]);
+        assert.equal(answer, 'The flow is built and valid.');
+    } finally {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    }
+});
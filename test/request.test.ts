@@ -0,0 +1,217 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import axios, { AxiosInstance } from 'axios';
+import { applyRequestPolicy, RequestPolicy } from '../src/nifi/request.js';
+
+// The request policy against a local stand-in for NiFi
+
+interface ReceivedRequest {
+    method: string;
+    url: string;
+    authorization?: string;
+    body: string;
+}
+
+type Handler = (request: ReceivedRequest, res: http.ServerResponse, count: number) => void;
+
+// A server answering with the handler, and an axios instance with the policy applied pointing at it
+async function withServer(
+    handler: Handler,
+    // A function when the policy needs the instance, e.g. to set the new token on re-authentication
+    policy: Partial<RequestPolicy> | ((api: AxiosInstance) => Partial<RequestPolicy>),
+    run: (api: AxiosInstance, received: ReceivedRequest[]) => Promise<void>
+): Promise<void> {
+    const received: ReceivedRequest[] = [];
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+            const request = { method: req.method!, url: req.url!, authorization: req.headers.authorization, body };
+            received.push(request);
+            handler(request, res, received.length);
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    const api = axios.create({ baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}` });
+    const overrides = typeof policy === 'function' ? policy(api) : policy;
+    applyRequestPolicy(api, { maxRetries: 2, retryDelayMs: 10, conflictRetries: 2, ...overrides });
+    try {
+        await run(api, received);
+    } finally {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    }
+}
+
+function reply(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json' });
+    res.end(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+// Rejection check for assert.rejects: an HTTP error with this status
+function withStatus(status: number): (error: any) => boolean {
+    return error => error.response?.status === status;
+}
+
+const STALE = 'Error: [1, null, p1] is not the most up-to-date revision. This component appears to have been modified';
+
+test('concurrent 401s share one re-authentication and are sent again with the new token', async () => {
+    let logins = 0;
+    await withServer(
+        (request, res) => {
+            if (request.authorization === 'Bearer fresh') {
+                reply(res, 200, { ok: request.url });
+            } else {
+                reply(res, 401, 'Unauthorized');
+            }
+        },
+        api => ({
+            reauthenticate: async () => {
+                logins++;
+                await new Promise(resolve => setTimeout(resolve, 20));
+                api.defaults.headers.common['Authorization'] = 'Bearer fresh';
+            },
+        }),
+        async (client, received) => {
+            const responses = await Promise.all([client.get('/flow/about'), client.get('/flow/status')]);
+            assert.equal(logins, 1);
+            assert.deepEqual(responses.map(r => r.data.ok), ['/flow/about', '/flow/status']);
+            assert.equal(received.filter(r => r.authorization === 'Bearer fresh').length, 2);
+        }
+    );
+});
+
+test('a 401 from the login request itself is not retried', async () => {
+    let logins = 0;
+    await withServer(
+        (_request, res) => reply(res, 401, 'Bad credentials'),
+        { authPath: '/access/token', reauthenticate: async () => void logins++ },
+        async (client, received) => {
+            await assert.rejects(client.post('/access/token', 'username=a&password=b'), withStatus(401));
+            assert.equal(logins, 0);
+            assert.equal(received.length, 1);
+        }
+    );
+});
+
+test('a stale revision on a run-status PUT is refreshed from the component and sent again', async () => {
+    await withServer(
+        (request, res) => {
+            if (request.method === 'GET' && request.url === '/processors/p1') {
+                reply(res, 200, { revision: { version: 5 } });
+            } else if (JSON.parse(request.body).revision.version === 5) {
+                reply(res, 200, { revision: { version: 6 } });
+            } else {
+                reply(res, 409, STALE);
+            }
+        },
+        {},
+        async (client, received) => {
+            const response = await client.put('/processors/p1/run-status', { revision: { version: 1 }, state: 'RUNNING' });
+            assert.equal(response.data.revision.version, 6);
+            assert.deepEqual(received.map(r => `${r.method} ${r.url}`), [
+                'PUT /processors/p1/run-status',
+                'GET /processors/p1',
+                'PUT /processors/p1/run-status',
+            ]);
+            assert.equal(JSON.parse(received[2].body).state, 'RUNNING');
+        }
+    );
+});
+
+test('a stale revision on a DELETE is refreshed in the version query parameter', async () => {
+    await withServer(
+        (request, res) => {
+            if (request.method === 'GET') {
+                reply(res, 200, { revision: { version: 3 } });
+            } else if (request.url.includes('version=3')) {
+                reply(res, 200, {});
+            } else {
+                reply(res, 409, STALE);
+            }
+        },
+        {},
+        async (client, received) => {
+            await client.delete('/connections/c1', { params: { version: 1 } });
+            assert.deepEqual(received.map(r => `${r.method} ${r.url}`), [
+                'DELETE /connections/c1?version=1',
+                'GET /connections/c1',
+                'DELETE /connections/c1?version=3',
+            ]);
+        }
+    );
+});
+
+test('a 409 about component state is not treated as a stale revision', async () => {
+    await withServer(
+        (_request, res) => reply(res, 409, 'Processor is currently running'),
+        {},
+        async (client, received) => {
+            await assert.rejects(client.put('/processors/p1', { revision: { version: 1 } }), withStatus(409));
+            assert.equal(received.length, 1);
+        }
+    );
+});
+
+test('5xx responses are retried with a doubling delay', async () => {
+    const retries: Array<[string, number, number]> = [];
+    await withServer(
+        (_request, res, count) => (count <= 2 ? reply(res, 503, 'Unavailable') : reply(res, 200, { ok: true })),
+        { onRetry: (reason, attempt, delayMs) => retries.push([reason, attempt, delayMs]) },
+        async (client, received) => {
+            const response = await client.get('/flow/status');
+            assert.equal(response.data.ok, true);
+            assert.equal(received.length, 3);
+            assert.deepEqual(retries, [['HTTP 503', 1, 10], ['HTTP 503', 2, 20]]);
+        }
+    );
+});
+
+test('5xx retries stop after maxRetries', async () => {
+    await withServer(
+        (_request, res) => reply(res, 500, 'Broken'),
+        {},
+        async (client, received) => {
+            await assert.rejects(client.get('/flow/status'), withStatus(500));
+            assert.equal(received.length, 3);
+        }
+    );
+});
+
+test('a POST answered with 5xx is not sent again', async () => {
+    await withServer(
+        (_request, res) => reply(res, 502, 'Bad gateway'),
+        {},
+        async (client, received) => {
+            await assert.rejects(client.post('/process-groups/root/processors', { revision: { version: 0 } }), withStatus(502));
+            assert.equal(received.length, 1);
+        }
+    );
+});
+
+test('a GET whose connection drops is retried', async () => {
+    await withServer(
+        (_request, res, count) => (count === 1 ? res.socket!.destroy() : reply(res, 200, { ok: true })),
+        {},
+        async (client, received) => {
+            const response = await client.get('/flow/status');
+            assert.equal(response.data.ok, true);
+            assert.equal(received.length, 2);
+        }
+    );
+});
+
+test('a POST whose connection drops after the body was sent is not retried', async () => {
+    await withServer(
+        (_request, res) => res.socket!.destroy(),
+        {},
+        async (client, received) => {
+            await assert.rejects(client.post('/process-groups/root/processors', { revision: { version: 0 } }), { code: 'ECONNRESET' });
+            assert.equal(received.length, 1);
+            assert.equal(JSON.parse(received[0].body).revision.version, 0);
+        }
+    );
+});